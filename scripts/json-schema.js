@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+//
+// Generate the JSON Schema of the declarative configuration files (see ShanoirNGConfig) from the
+// jsii assembly of the props interfaces.
+//
+// usage: npm run build && npm run schema
+//
+const fs = require("fs");
+const path = require("path");
+
+const root = path.join(__dirname, "..");
+
+// jsii assemblies indexed by name
+const assemblies = {};
+function assembly(name)
+{
+  if (assemblies[name] == undefined) {
+    const dir = (name == "cdk8s-shanoir") ? root : path.dirname(
+      require.resolve(`${name}/package.json`, { paths: [root] }));
+    assemblies[name] = JSON.parse(fs.readFileSync(path.join(dir, ".jsii"), "utf-8"));
+  }
+  return assemblies[name];
+}
+
+function lookup(fqn)
+{
+  return assembly(fqn.split(".")[0]).types[fqn];
+}
+
+// types expressed as strings in the configuration files (see ShanoirNGConfig)
+const scalarTypes = {
+  "cdk8s.Size": {
+    type: "string",
+    pattern: "^\\s*[0-9.]+\\s*(Ki|Mi|Gi|Ti|Pi)\\s*$",
+    description: "size (eg: \"64Gi\")",
+  },
+  "cdk8s.Duration": {
+    type: "string",
+    description: "duration (eg: \"10m\", \"600s\" or \"PT10M\")",
+  },
+  "cdk8s-plus-33.Cpu": {
+    type: ["string", "number"],
+    pattern: "^\\s*[0-9.]+\\s*m?\\s*$",
+    description: "cpu amount (eg: \"250m\" or 0.25)",
+  },
+};
+
+// string literal unions are erased by jsii, they are recovered from the typescript source
+function literalUnion(type, prop)
+{
+  const loc = prop.locationInModule;
+  if (loc == undefined || !type.fqn.startsWith("cdk8s-shanoir.")) {
+    return undefined;
+  }
+  const line = fs.readFileSync(path.join(root, loc.filename), "utf-8").split("\n")[loc.line - 1];
+  const m = /:\s*("[^"]*"(\s*\|\s*"[^"]*")*)\s*;/.exec(line ?? "");
+  return m ? m[1].split("|").map((x) => JSON.parse(x.trim())) : undefined;
+}
+
+const definitions = {};
+
+/** schema of a jsii type reference (or undefined if not expressible in a configuration file) */
+function schema(ref)
+{
+  if (ref.primitive != undefined) {
+    return { "string": { type: "string" }, "number": { type: "number" },
+             "boolean": { type: "boolean" } }[ref.primitive] ?? {};
+  }
+  if (ref.collection != undefined) {
+    const items = schema(ref.collection.elementtype);
+    if (items == undefined) {
+      return undefined;
+    }
+    return (ref.collection.kind == "map") ? { type: "object", additionalProperties: items }
+      : { type: "array", items: items };
+  }
+  if (ref.union != undefined) {
+    const types = ref.union.types.map(schema).filter((x) => x != undefined);
+    return types.length ? { anyOf: types } : undefined;
+  }
+  if (scalarTypes[ref.fqn] != undefined) {
+    return scalarTypes[ref.fqn];
+  }
+
+  const type = lookup(ref.fqn);
+  const name = ref.fqn.replace(/^cdk8s-shanoir\./, "");
+  if (type.kind == "enum") {
+    const values = require(type.assembly)[type.name];
+    definitions[name] ??= { enum: type.members.map((m) => values[m.name]) };
+  } else if (type.kind == "interface" && type.datatype) {
+    if (definitions[name] == undefined) {
+      definitions[name] = {};  // placeholder for recursive types
+      definitions[name] = interfaceSchema(type);
+    }
+  } else {
+    // classes and behavioral interfaces cannot be expressed in a configuration file
+    return undefined;
+  }
+  return { $ref: `#/definitions/${name}` };
+}
+
+/** schema of a jsii datatype interface (including the inherited properties) */
+function interfaceSchema(type)
+{
+  let properties = {};
+  let required = [];
+  for (const parent of type.interfaces ?? []) {
+    const s = interfaceSchema(lookup(parent));
+    properties = { ...properties, ...s.properties };
+    required = [...required, ...(s.required ?? [])];
+  }
+  for (const prop of type.properties ?? []) {
+    const literals = literalUnion(type, prop);
+    const s = literals ? { enum: literals } : schema(prop.type);
+    if (s == undefined) {
+      continue;
+    }
+    const description = [prop.docs?.summary, prop.docs?.remarks].filter((x) => x).join("\n\n");
+    properties[prop.name] = { ...s, ...(description ? { description } : {}) };
+    if (!prop.optional) {
+      required.push(prop.name);
+    }
+  }
+  return {
+    type: "object",
+    ...(type.docs?.summary ? { description: type.docs.summary } : {}),
+    properties: properties,
+    ...(required.length ? { required: required } : {}),
+    additionalProperties: false,
+  };
+}
+
+const props = interfaceSchema(lookup("cdk8s-shanoir.ShanoirNGProps"));
+const result = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "Configuration of a shanoir instance",
+  ...props,
+  properties: {
+    $schema: { type: "string" },
+    id: { type: "string", description: "id of the chart (default: the basename of the file)" },
+    ...props.properties,
+  },
+  definitions: definitions,
+};
+fs.writeFileSync(path.join(root, "shanoir-ng-props.schema.json"),
+                 JSON.stringify(result, null, 2) + "\n");
@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+//
+// Synthesize a shanoir instance in each supported mode and from configuration files (in a
+// temporary directory), and report the configurations that cannot be synthesized (or the invalid
+// ones that are not properly rejected).
+//
+// usage: npm run build && npm test
+//
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { App, Size, Yaml } = require("cdk8s");
+const { PersistentVolumeAccessMode } = require("cdk8s-plus-33");
+const { ShanoirNGChart, shanoirVolumes } = require("..");
+
+function pvc(mb)
+{
+  return { storage: Size.mebibytes(mb), accessModes: [PersistentVolumeAccessMode.READ_WRITE_ONCE] };
+}
+
+// volumes that may be omitted (see ShanoirNGProps.volumeClaims)
+const optionalVolumes = [
+  "backup", "dcm4chee-arc-wildfly-data", "dcm4chee-ldap-data", "dcm4chee-sldap-data",
+];
+
+const baseProps = {
+  url: "https://shanoir.example.org",
+  viewerUrl: "https://shanoir-viewer.example.org",
+  adminName: "Example Admin",
+  adminEmail: "admin@example.org",
+  smtp: { host: "smtp.example.org", fromAddress: "no-reply@example.org" },
+  keycloakCredentials: { username: "admin", password: "qzflpuy;" },
+  volumeClaims: Object.fromEntries(shanoirVolumes.filter((name) => !optionalVolumes.includes(name))
+    .map((name) => [name, pvc(1)])),
+  ingress: {},
+};
+
+// configuration file equivalent to baseProps (see ShanoirNGConfig)
+const baseConfig = {
+  ...baseProps,
+  volumeClaims: Object.fromEntries(Object.keys(baseProps.volumeClaims).map((name) =>
+    [name, { storage: "1Mi", accessModes: ["ReadWriteOnce"] }])),
+};
+
+// configurations to be synthesized, either as props (merged into baseProps) or as the content of
+// a configuration file (loaded with ShanoirNGChart.fromFile)
+//
+// The invalid configurations must be rejected with a ShanoirValidationError reporting a problem
+// at the given `error` path.
+const checks = {
+  "default": { props: {} },
+  "init": { props: { init: true, generatePasswords: false } },
+  "init with generated passwords": { props: { init: true, generatePasswords: true } },
+  "mysql root password from a secret": { props: {
+    mysqlRootPasswordRef: { secretName: "mysql-root", key: "password" },
+  }},
+  "init with an external keycloak": { props: {
+    init: true,
+    generatePasswords: false,
+    keycloakUrl: "https://keycloak.example.org/auth",
+  }},
+  "restore": { props: {
+    restore: {
+      backupClaimName: "shanoir-prod-backup-pvc",
+      volumeClaimNames: { "datasets-data": "shanoir-prod-datasets-data-pvc" },
+    },
+  }},
+  "restore with the keycloak admin console": { props: {
+    ingress: { exposeKeycloakAdminConsole: true },
+    restore: { backupClaimName: "shanoir-prod-backup-pvc" },
+  }},
+  "upgrade": { props: { upgrade: { fromVersion: "NG_v2.0.0", skipBackup: true } } },
+  "stdout logging": { props: {
+    logging: {},
+    volumeClaims: Object.fromEntries(Object.entries(baseProps.volumeClaims)
+      .filter(([name]) => !["logs", "dcm4chee-logs", "keycloak-logs"].includes(name))),
+  }},
+  "init without generatePasswords": { props: { init: true }, error: "generatePasswords" },
+  "missing smtp": { props: { smtp: undefined }, error: "smtp" },
+  "missing volumeClaims": { props: { volumeClaims: undefined }, error: "volumeClaims" },
+  "url with a path": { props: { url: "https://shanoir.example.org/shanoir" }, error: "url" },
+  "missing keycloak password": {
+    props: { keycloakCredentials: { username: "admin" } },
+    error: "keycloakCredentials.password",
+  },
+  "unknown volume to be restored": {
+    props: { restore: { backupClaimName: "backup-pvc", volumeClaimNames: { foo: "foo-pvc" } } },
+    error: "restore.volumeClaimNames.foo",
+  },
+  "downgrade recorded in an indexed manifest": {
+    props: { upgrade: {} },
+    previous: { "0000-shanoir-check.k8s.yaml": [
+      { kind: "ConfigMap",
+        metadata: { name: "cm", labels: { "app.kubernetes.io/version": "NG_v99.0.0" } } },
+    ]},
+    error: "version",
+  },
+  "migrations password from a secret": {
+    props: { mysqlDatabases: {
+      ...Object.fromEntries(["datasets", "import", "keycloak", "preclinical", "studies", "users"]
+        .map((name) => [name, { host: "mysql", db: name, username: name, password: "x" }])),
+      migrations: {
+        host: "mysql", db: "migrations", username: "migrations",
+        passwordRef: { secretName: "migrations", key: "password" },
+      },
+    }},
+    error: "mysqlDatabases.migrations.password",
+  },
+
+  "minimal config file": { config: baseConfig },
+  "config file with sizes, durations and cpu amounts": { config: {
+    ...baseConfig,
+    maxUploadSize: "2Gi",
+    uploadTimeout: "10m",
+    resources: { users: { cpu: { request: "250m" }, memory: { limit: "1Gi" } } },
+    upgrade: { fromVersion: "NG_v2.0.0", skipBackup: true, timeout: "30m" },
+  }},
+  "config file without smtp": { config: { ...baseConfig, smtp: undefined }, error: "smtp" },
+  "config file with an invalid size": {
+    config: { ...baseConfig, volumeClaims: { ...baseConfig.volumeClaims, tmp: { storage: "1G" } } },
+    error: "volumeClaims.tmp.storage",
+  },
+  "config file with an invalid resources entry": {
+    config: { ...baseConfig, resources: { users: 12 } },
+    error: "resources.users",
+  },
+};
+
+/** synthesize a chart in a new app (in a temporary directory)
+ *
+ * @param check.props     props of the chart (merged into baseProps)
+ * @param check.config    content of a configuration file (used instead of check.props)
+ * @param check.previous  manifests generated by a previous synth (by file name)
+ */
+function synth(check)
+{
+  const tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), "shanoir-check-"));
+  try {
+    const app = new App({ outdir: path.join(tmpdir, "dist") });
+    for (const [file, manifest] of Object.entries(check.previous ?? {})) {
+      fs.mkdirSync(app.outdir, { recursive: true });
+      fs.writeFileSync(path.join(app.outdir, file), Yaml.stringify(...manifest));
+    }
+    if (check.config != undefined) {
+      const file = path.join(tmpdir, "shanoir-check.yaml");
+      // (JSON is valid YAML)
+      fs.writeFileSync(file, JSON.stringify(check.config));
+      ShanoirNGChart.fromFile(app, file);
+    } else {
+      new ShanoirNGChart(app, "shanoir-check", { ...baseProps, ...check.props });
+    }
+    app.synth();
+  } finally {
+    fs.rmSync(tmpdir, { recursive: true, force: true });
+  }
+}
+
+let failures = 0;
+for (const [name, check] of Object.entries(checks)) {
+  let problem;
+  try {
+    synth(check);
+    problem = (check.error == undefined) ? undefined : "not rejected";
+  } catch (e) {
+    if (check.error == undefined) {
+      problem = e.message ?? e;
+    } else if (e.name != "ShanoirValidationError"
+               || !e.problems.some((p) => p.path == check.error)) {
+      problem = `unexpected error: ${e.message ?? e}`;
+    }
+  }
+  if (problem == undefined) {
+    console.log(`ok      ${name}`);
+  } else {
+    failures++;
+    console.log(`FAILED  ${name}: ${problem}`);
+  }
+}
+process.exit(failures ? 1 : 0);
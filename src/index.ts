@@ -1,2 +1,4 @@
 export * from './shanoir-ng-props';
 export * from './shanoir-ng-charts';
+export * from './shanoir-ng-validation';
+export * from './shanoir-ng-config';
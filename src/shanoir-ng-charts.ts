@@ -1,46 +1,143 @@
 import { strict as assert } from "assert";
+import { randomBytes } from "crypto";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { Construct } from "constructs";
-import { Chart, Size } from "cdk8s";
 import {
-  ConfigMap, ContainerProps, ContainerRestartPolicy, Deployment, DeploymentProps,
-  DeploymentStrategy, EnvFrom, EnvValue, Ingress, IngressBackend, IPersistentVolumeClaim, Job,
-  JobProps, Namespace, PersistentVolumeClaim, PodSecurityContextProps, RestartPolicy, Secret,
-  Service, Volume, VolumeMount,
+  ApiObject, App, Chart, Cron, Duration, JsonPatch, Lazy, Size, SizeRoundingBehavior, Yaml,
+} from "cdk8s";
+import {
+  AbstractPod, AbstractPodProps, ConcurrencyPolicy, ConfigMap, ContainerProps, ContainerResources,
+  ContainerRestartPolicy, CronJob, Deployment, DeploymentProps, DeploymentStrategy, EnvFieldPaths,
+  EnvFrom, EnvValue, FsGroupChangePolicy, Ingress, IngressBackend, INetworkPolicyPeer,
+  IPersistentVolumeClaim, ISecret, Job, JobProps, Namespace, Namespaces, NetworkPolicy,
+  NetworkPolicyIpBlock, NetworkPolicyPort, NetworkPolicyTrafficDefault, PersistentVolumeAccessMode,
+  PersistentVolumeClaim, PodSecurityContextProps, Probe, ProbeOptions, RestartPolicy, Secret,
+  Service, ServiceType, Volume, VolumeMount, k8s,
 
 } from "cdk8s-plus-33"; import { URL } from "whatwg-url";
 
 import {
-  ShanoirDatabaseProps, ShanoirNGProps, shanoirNGDefaults, shanoirMysqlDatabases,
-  shanoirPostgresqlDatabases, shanoirSmtpDefaults, shanoirVipDefaults, shanoirVolumes,
+  ShanoirDatabaseProps, ShanoirNGProps, ShanoirSecretKeyRef, defaultImages, defaultProbes,
+  shanoirDataVolumes, shanoirNGDefaults, shanoirSharedVolumes,
+  shanoirProbeDefaults, shanoirSmtpDefaults, shanoirVipDefaults, shanoirBackupDefaults,
+  shanoirDicomDefaults, shanoirMonitoringDefaults, shanoirDisruptionBudgetDefaults,
+  shanoirLoggingDefaults, shanoirUpgradeDefaults,
 } from "./shanoir-ng-props";
+import { ShanoirNGConfig } from "./shanoir-ng-config";
+import { ShanoirNGValidator, ShanoirValidationError } from "./shanoir-ng-validation";
+
+/** url paths of the endpoints receiving the uploads (see {@link ShanoirNGProps.maxUploadSize}) */
+const uploadPaths = [
+  "/shanoir-ng/import/",
+  "/shanoir-ng/datasets/",
+];
+
+/** http route exposed by the ingress (see {@link ShanoirNGChart.createIngress}) */
+interface IngressRoute {
+  readonly host: string;
+  readonly path?: string;
+  readonly service: Service;
+  readonly port: number;
+  /** true if this route receives uploaded files (see {@link uploadPaths}) */
+  readonly upload?: boolean;
+}
 
-//TODO: allocate resources (see #11)
-const noResources = { resources: {} };
-
-/** ensure that the `map` contains a set of expected keys
- *
- * If `map` is defined, then the function will:
- * - raise an exception if any key listed in `requiredKeys` is missing
- * - show a warning if the map includes a key not listed in `allKeys`
- *
- * If `knownKeys` is unset, then it is initialised with the value of `requiredKeys`.
- */
-function checkResourceMap(desc: string, map: {[key: string]: unknown} | undefined,
-                          requiredKeys: string[], knownKeys?: string[])
-{
-  if (map != undefined) {
-    const actualSet = new Set(Object.keys(map));
-    const requiredSet = new Set(requiredKeys);
-    const knownSet = new Set(knownKeys ?? requiredKeys);
-    const unknown = [...actualSet].filter(x => !knownSet.has(x));
-    if (unknown.length) {
-      console.error(`warning: unexpected ${desc}: ${unknown}`)
-    }
-    const missing = [...requiredSet].filter(x => !actualSet.has(x));
-    if (missing.length) {
-      throw `error: missing ${desc}: ${missing}`;
+/** Container image used by a shanoir instance (see {@link ShanoirNGChart.imageInventory}) */
+export interface ShanoirImageUsage {
+  /** Image name, as written in the manifests (eg: `rabbitmq:3.10.7`) */
+  readonly image: string;
+
+  /** Containers using this image (`<chart id>/<pod name>/<container name>`) */
+  readonly containers: string[];
+}
+
+/** TCP port of each shanoir microservice */
+const msPorts: {[key: string]: number} = {
+  users: 9901,
+  studies: 9902,
+  import: 9903,
+  datasets: 9904,
+  preclinical: 9905,
+};
+
+/** context key set in the throwaway apps of {@link ShanoirNGChart.imageInventoryOf} (where the
+ * props are validated beforehand) */
+const skipValidationContext = "shanoir-ng:skip-validation";
+
+/** hardcoded uids of the dcm4chee volumes (the dcm4chee images are started as root and switch to
+ * these uids, see {@link defaultUids}) */
+const dcm4cheeVolumeUids: {[key: string]: number} = {
+  "dcm4chee-database-data": 999,
+  "dcm4chee-ldap-data": 1021,
+  "dcm4chee-sldap-data": 1021,
+  "dcm4chee-arc-storage-data": 1023,
+  "dcm4chee-arc-wildfly-data": 1023,
+  "dcm4chee-logs": 1023,
+};
+
+/** kubernetes object loaded from a previous manifest (see {@link
+ * ShanoirNGChart.previousManifest}) */
+interface ManifestObject {
+  readonly kind?: string;
+  readonly metadata?: {
+    readonly name?: string;
+    readonly namespace?: string;
+    readonly labels?: {[key: string]: string};
+    readonly annotations?: {[key: string]: string};
+  };
+  readonly data?: {[key: string]: string};
+  readonly stringData?: {[key: string]: string};
+}
+
+/** label recording the shanoir version in the manifests (see {@link ShanoirUpgradeProps}) */
+const versionLabel = "app.kubernetes.io/version";
+
+/** annotation recording the claims of the data volumes in the manifests (see {@link
+ * ShanoirNGProps.allowVolumeClaimRenames}) */
+const volumeClaimsAnnotation = "shanoir-ng/volume-claims";
+
+/** parse the numeric part of a shanoir version (eg: "NG_v2.10.0" -> [2, 10, 0]) */
+function parseVersion(version: string): number[] | undefined {
+  const m = /(\d+(\.\d+)*)/.exec(version);
+  return m ? m[1]!.split(".").map(Number) : undefined;
+}
+
+/** compare two parsed versions (returns a negative number if a < b) */
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const d = (a[i] ?? 0) - (b[i] ?? 0);
+    if (d != 0) {
+      return d;
     }
   }
+  return 0;
+}
+
+/** split an image name into its repository and its tag (if any) */
+function splitImage(image: string): [string, string | undefined] {
+  const m = /^(.*?)(:([^:/]+))?$/.exec(image)!;
+  return [m[1]!, m[3]];
+}
+
+/** replace the registry of an image repository (see {@link ShanoirNGProps.imageRegistry}) */
+function rewriteRegistry(repository: string, registry: string | undefined): string {
+  if (registry == undefined) {
+    return repository;
+  }
+  const [first, ...rest] = repository.split("/");
+  const path = (rest.length && /[.:]|^localhost$/.test(first!)) ? rest.join("/")
+    // docker hub image
+    : rest.length ? repository : `library/${repository}`;
+  return `${registry.replace(/\/+$/, "")}/${path}`;
+}
+
+/** json path of the pod spec in the manifest of a workload (if supported) */
+function podSpecPath(pod: unknown): string | undefined {
+  return (pod instanceof CronJob) ? "/spec/jobTemplate/spec/template/spec"
+    : (pod instanceof Deployment || pod instanceof Job) ? "/spec/template/spec"
+    : undefined;
 }
 
 /** build a k8s EnvValue from string */
@@ -53,16 +150,28 @@ export class ShanoirNGChart extends Chart
   readonly props: ShanoirNGProps;
 
   private readonly url: URL;
+  /** true if this deployment includes a keycloak server */
+  private readonly useInternalKeycloak: boolean;
   private readonly viewerUrl: URL;
 
   readonly commonConfigMap: ConfigMap;
   readonly secret: Secret;
+  /** all passwords used in the chart (see {@link createPasswords}) */
+  private readonly passwords: {[key: string]: string | ShanoirSecretKeyRef};
+  /** pre-existing secrets referenced by the chart (indexed by name) */
+  private readonly externalSecrets: {[key: string]: ISecret};
   readonly smtpEnvVariables: {[key: string]: EnvValue};
   readonly vipEnvVariables: {[key: string]: EnvValue};
   readonly keycloakCredentialsEnvVariables: {[key: string]: EnvValue};
   readonly dcm4cheeDbEnvVariables: {[key: string]: EnvValue};
+  readonly uploadEnvVariables: {[key: string]: EnvValue};
 
   readonly services: {[key: string]: Service};
+  /** pods created for each component (indexed by the name passed to {@link createDeployment} and
+   * {@link createJob}) */
+  private readonly workloads: {[key: string]: AbstractPod[]};
+  /** network connections between the components (see {@link connect}) */
+  private readonly connections: { from: string, to: string, port: number }[];
   readonly volumes: {[key: string]: Volume};
   readonly volumeClaims: {[key: string]: IPersistentVolumeClaim};
 
@@ -75,40 +184,99 @@ export class ShanoirNGChart extends Chart
    */
   readonly initChart?: Chart;
 
-  constructor(scope: Construct, id: string, props: ShanoirNGProps)
+  /** Additional chart for restoring a backup into a new shanoir instance
+   *
+   * This chart contains the jobs for loading the database dumps and copying the data volumes (see
+   * {@link ShanoirNGProps.restore}). Like {@link initChart}, it must never be run on an existing
+   * instance.
+   *
+   * The name of this chart starts with 'danger-' to prevent accidental misuse.
+   */
+  readonly restoreChart?: Chart;
+
+  /** Additional chart for upgrading an existing shanoir instance
+   *
+   * This chart contains the job applying the migrations to a new {@link ShanoirNGProps.version}
+   * (see {@link ShanoirNGProps.upgrade}). It must be applied only once.
+   */
+  readonly upgradeChart?: Chart;
+
+  /** Additional chart providing the passwords generated for the internal accounts
+   *
+   * This chart is created only in the initialisation mode when {@link
+   * ShanoirNGProps.generatePasswords} is set. It must be applied only once, before the other
+   * manifests (the passwords generated by the previous synth are kept).
+   */
+  readonly secretsChart?: Chart;
+
+  /** Name of the secret holding the generated passwords
+   *
+   * (see {@link ShanoirNGProps.generatePasswords})
+   */
+  readonly generatedSecretName: string;
+
+  /** Create a chart from a declarative configuration file (see {@link ShanoirNGConfig.load})
+   *
+   * @param scope  parent construct (usually the cdk8s App)
+   * @param path   path of the YAML/JSON configuration file
+   */
+  static fromFile(scope: Construct, path: string): ShanoirNGChart
   {
-    //console.error("orig props:", props);
+    const config = ShanoirNGConfig.load(path);
+    return new ShanoirNGChart(scope, config.id, config.props);
+  }
 
-    assert(props.keycloakUrl == undefined); // not yet supported
+  /** List the container images used by a shanoir instance in all the modes
+   *
+   * The chart is instantiated in throwaway apps, both in the normal and in the initialisation
+   * modes, so that the result covers the whole lifecycle of the instance (see {@link
+   * imageInventory}). These apps use an empty temporary output directory (so that the manifests
+   * of the previous synth are not taken into account).
+   *
+   * @param props  props of the instance
+   * @param id     id of the chart (default: "shanoir")
+   */
+  static imageInventoryOf(props: ShanoirNGProps, id?: string): ShanoirImageUsage[]
+  {
+    // validate the props only once (to avoid printing the warnings twice)
+    ShanoirNGValidator.assertValid(props);
+
+    const outdir = mkdtempSync(join(tmpdir(), "shanoir-inventory-"));
+    try {
+      // (the upgrade mode does not use any additional image)
+      const charts = [
+        { ...props, init: false, upgrade: undefined },
+        { ...props, init: true, restore: undefined, upgrade: undefined },
+      ].map((p) => {
+        const app = new App({ outdir });
+        app.node.setContext(skipValidationContext, true);
+        return new ShanoirNGChart(app, id ?? "shanoir", { ...p, previousManifestsDir: outdir });
+      });
+      const usage: {[key: string]: Set<string>} = {};
+      for (const entry of charts.flatMap((chart) => chart.imageInventory())) {
+        usage[entry.image] = new Set([...(usage[entry.image] ?? []), ...entry.containers]);
+      }
+      return Object.keys(usage).sort().map((image) => ({ image, containers: [...usage[image]!] }));
+    } finally {
+      rmSync(outdir, { recursive: true, force: true });
+    }
+  }
 
-    // keycloakInternalUrl cannot be used if keycloakUrl is unset
-    assert(!(props.keycloakInternalUrl != undefined && props.keycloakUrl == undefined));
+  constructor(scope: Construct, id: string, props: ShanoirNGProps)
+  {
+    //console.error("orig props:", props);
 
-    // must provide a smtp relay
-    assert((props.smtp.host != undefined) || (props.smtp.mailpit != undefined));
+    // report all the problems found in the props at once
+    // (unless already done by imageInventoryOf())
+    if (!scope.node.tryGetContext(skipValidationContext)) {
+      ShanoirNGValidator.assertValid(props);
+    }
 
     // optional features
     const useInternalKeycloak            = props.keycloakUrl == undefined;
     const useInternalMysqlDatabases      = props.mysqlDatabases == undefined;
     const useInternalPostgresqlDatabases = props.postgresqlDatabases == undefined;
 
-    // list of volumes for which we do not need a volume claim
-    const optionalVolumes = new Set([
-      "dcm4chee-arc-wildfly-data",
-      "dcm4chee-ldap-data",
-      "dcm4chee-sldap-data",
-      ...(useInternalKeycloak             ? [] : ["keycloak-database-data"]),
-      ...(useInternalMysqlDatabases       ? [] : ["keycloak-database-data", "database-data"]),
-      ...(useInternalPostgresqlDatabases  ? [] : ["dcm4chee-database-data"]),
-    ])
-
-    // ensure all required volume claims and db credentials are provided 
-    checkResourceMap("volume claim", props.volumeClaims,
-                     shanoirVolumes.filter(x => !optionalVolumes.has(x)), shanoirVolumes);
-    checkResourceMap("mysql database", props.mysqlDatabases, shanoirMysqlDatabases);
-    checkResourceMap("postgresql database", props.postgresqlDatabases, shanoirPostgresqlDatabases);
-
-
     // apply the defaults
     // (after this line, all keys of `props`, `props.smtp` and `props.vip` are defined)
     props = {
@@ -118,15 +286,52 @@ export class ShanoirNGChart extends Chart
       ...shanoirNGDefaults, ...props,
       smtp: {...shanoirSmtpDefaults, ...props.smtp },
       vip:  {...shanoirVipDefaults,  ...props.vip },
+      backup: (props.backup == undefined) ? undefined
+        : {...shanoirBackupDefaults, ...props.backup},
+      dicom: (props.dicom == undefined) ? undefined
+        : {...shanoirDicomDefaults, ...props.dicom},
+      monitoring: (props.monitoring == undefined) ? undefined
+        : {...shanoirMonitoringDefaults, ...props.monitoring},
+      logging: (props.logging == undefined) ? undefined
+        : {...shanoirLoggingDefaults, ...props.logging},
+      disruptionBudget: (props.disruptionBudget == undefined) ? undefined
+        : {...shanoirDisruptionBudgetDefaults, ...props.disruptionBudget},
+      upgrade: (props.upgrade == undefined) ? undefined
+        : {...shanoirUpgradeDefaults, ...props.upgrade},
+      uids: {...shanoirNGDefaults.uids, ...props.uids },
+      resources: {...shanoirNGDefaults.resources, ...props.resources },
     };
     //console.error("compiled props:", props);
 
     super(scope, id, props);
     this.props = props;
+    this.useInternalKeycloak = useInternalKeycloak;
     this.services = {};
+    this.workloads = {};
+    this.connections = [];
 
     if (props.init) {
       this.initChart = new Chart(scope, `danger-init-${id}`, props);
+
+      if (props.generatePasswords) {
+        this.secretsChart = new Chart(scope, `secrets-${id}`, props);
+      }
+    }
+    this.generatedSecretName = `${id}-generated-passwords`;
+
+    if (props.restore != undefined) {
+      this.restoreChart = new Chart(scope, `danger-restore-${id}`, props);
+    }
+
+    if (!props.init && !scope.node.tryGetContext(skipValidationContext)
+        && this.previousManifestFile() == undefined) {
+      console.error(`warning: no previous manifest of ${id} found in ${this.previousManifestsDir()}`
+                    + " (the version and the volume claim names cannot be checked)");
+    }
+
+    if (props.upgrade != undefined) {
+      this.checkUpgradeVersion();
+      this.upgradeChart = new Chart(scope, `upgrade-${id}`, props);
     }
 
     //////////// namespace ////////////
@@ -138,11 +343,19 @@ export class ShanoirNGChart extends Chart
     //////////// volumes ////////////
 
     // prepare the volume configs to be used in the containers
-    this.volumeClaims = Object.fromEntries(Object.entries(this.props.volumeClaims).map(
-      ([name, props]) => [name, new PersistentVolumeClaim(this, `${name}-pvc`, props)]));
+    this.volumeClaims = this.createVolumeClaims();
+    if (!props.allowVolumeClaimRenames) {
+      this.checkVolumeClaimNames();
+    }
 
-    this.volumes = Object.fromEntries(Object.entries(this.volumeClaims).map(
-      ([name, pvc]) => [name, Volume.fromPersistentVolumeClaim(this, `${name}-rv`, pvc)]));
+    this.volumes = this.createVolumes();
+
+    // the log files are written into ephemeral volumes (see ShanoirNGProps.logging)
+    if (props.logging != undefined) {
+      for (const name of ["logs", "dcm4chee-logs"]) {
+        this.volumes[name] = Volume.fromEmptyDir(this, `${name}-ev`, name);
+      }
+    }
 
     //////////// env vars ////////////
 
@@ -152,11 +365,17 @@ export class ShanoirNGChart extends Chart
 
     this.commonConfigMap = this.createCommonConfigMap();
 
+    this.passwords = this.createPasswords();
+    this.externalSecrets = {};
     this.secret = this.createSecret();
+    if (this.secretsChart != undefined) {
+      this.createGeneratedSecret(this.secretsChart);
+    }
     this.vipEnvVariables = this.createVipEnvVariables();
     this.keycloakCredentialsEnvVariables = this.createKeycloakCredentialsEnvVariables();
     this.dcm4cheeDbEnvVariables = this.createDcm4cheeDbEnvVariables();
     this.smtpEnvVariables = this.createSmtpEnvVariables();
+    this.uploadEnvVariables = this.createUploadEnvVariables();
 
     //////////// smtp service ////////////
 
@@ -179,8 +398,16 @@ export class ShanoirNGChart extends Chart
 
     this.deploySolr();
 
-    if (useInternalKeycloak) {
+    // NOTE: in the restore mode, only the backend services are deployed (the other services must
+    //       not run while the data is restored)
+    const restore = this.restoreChart != undefined;
+
+    if (restore) {
+      // keycloak is not deployed
+    } else if (useInternalKeycloak) {
       this.deployKeycloak();
+    } else if (props.init) {
+      this.initExternalKeycloak();
     }
 
     //////////// dcm4chee ////////////
@@ -189,25 +416,206 @@ export class ShanoirNGChart extends Chart
       this.deployDcm4cheeDatabase();
     }
 
-    this.deployDcm4chee();
+    if (!restore) {
+      this.deployDcm4chee();
+    }
 
     //////////// shanoir micro services ////////////
 
-    this.deployMicroservices();
+    if (!restore) {
+      this.deployMicroservices();
+    }
 
     //////////// front ////////////
 
-    if (!this.props.init) {
+    if (!this.props.init && !restore) {
       this.deployNginx();
     }
 
     this.createIngress();
+
+    //////////// backups ////////////
+
+    if (props.backup != undefined) {
+      this.deployBackups();
+    }
+
+    //////////// restore ////////////
+
+    if (restore) {
+      this.restoreDatabases(this.restoreChart!);
+      this.restoreVolumes(this.restoreChart!);
+    }
+
+    //////////// monitoring ////////////
+
+    if (props.monitoring != undefined) {
+      this.createMonitoring();
+    }
+
+    //////////// logging ////////////
+
+    if (props.logging?.mode == "fluent-bit") {
+      this.addLogShippers();
+    } else if (props.logging?.mode == "stdout") {
+      this.addLogTailers();
+    }
+
+    //////////// scheduling ////////////
+
+    this.colocateSharedVolumes();
+    if (props.disruptionBudget != undefined) {
+      this.createDisruptionBudget();
+    }
+
+    //////////// network policies ////////////
+
+    if (props.networkPolicies) {
+      this.createNetworkPolicies();
+    }
+
+    //////////// image pull secrets ////////////
+
+    if (props.imagePullSecrets?.length) {
+      this.addImagePullSecrets();
+    }
+  }
+
+  /** ensure that the upgrade mode does not downgrade the running instance
+   *
+   * The running version is either {@link ShanoirUpgradeProps.fromVersion} or the version recorded
+   * in the manifest generated by the previous synth.
+   *
+   * @throws ShanoirValidationError if the version cannot be checked or is older than the running
+   *         version
+   */
+  private checkUpgradeVersion()
+  {
+    const version = this.props.version!;
+    const fromVersion = this.props.upgrade!.fromVersion ?? this.previousVersion();
+    const error = (message: string) => new ShanoirValidationError([{ path: "version", message }]);
+
+    if (fromVersion == undefined) {
+      throw error("cannot find the version of the running instance in the previous manifest"
+                  + " (upgrade.fromVersion must be provided)");
+    }
+    const from = parseVersion(fromVersion);
+    const to = parseVersion(version);
+    if (from == undefined || to == undefined) {
+      console.error(`warning: version: cannot compare ${version} with ${fromVersion}`);
+    } else if (compareVersions(to, from) < 0) {
+      throw error(`cannot downgrade the instance from ${fromVersion} to ${version}`);
+    }
+  }
+
+  /** get the version recorded in the manifest generated by the previous synth (if any) */
+  private previousVersion(): string | undefined
+  {
+    return this.previousManifest().map((obj) => obj.metadata?.labels?.[versionLabel])
+      .find((version) => version != undefined);
+  }
+
+  /** get the directory containing the manifests generated by the previous synth (see {@link
+   * ShanoirNGProps.previousManifestsDir}) */
+  private previousManifestsDir(): string | undefined
+  {
+    const app = App.of(this);
+    return this.props.previousManifestsDir ?? ((app instanceof App) ? app.outdir : undefined);
+  }
+
+  /** list the manifests generated by the previous synth
+   *
+   * The manifests are expected to use the `YamlOutputType.FILE_PER_CHART` output, with either
+   * the simple or the indexed file names (`<chart id>.k8s.yaml` or `0000-<chart id>.k8s.yaml`).
+   *
+   * @return  the path of the manifest of each chart id
+   */
+  private previousManifestFiles(): {[chartId: string]: string}
+  {
+    const dir = this.previousManifestsDir();
+    const app = App.of(this);
+    const ext = (app instanceof App) ? app.outputFileExtension : ".k8s.yaml";
+    if (dir == undefined || !existsSync(dir)) {
+      return {};
+    }
+    return Object.fromEntries(readdirSync(dir).filter((file) => file.endsWith(ext))
+      .map((file) => [file.slice(0, -ext.length).replace(/^[0-9]{4}-/, ""), join(dir, file)]));
+  }
+
+  /** get the path of the manifest generated by the previous synth for a chart (if any)
+   *
+   * @param chartId  id of the chart (default: this chart)
+   */
+  private previousManifestFile(chartId?: string): string | undefined
+  {
+    return this.previousManifestFiles()[chartId ?? this.node.id];
+  }
+
+  /** load the manifest generated by the previous synth (if any, see {@link previousManifestFile})
+   *
+   * @param chartId  id of the chart (default: this chart)
+   */
+  private previousManifest(chartId?: string): ManifestObject[]
+  {
+    const path = this.previousManifestFile(chartId);
+    return (path == undefined) ? [] : (Yaml.load(path) as unknown[]).filter(
+      (obj): obj is ManifestObject => typeof obj == "object" && obj != null);
+  }
+
+  /** list the ids of the other charts having a previous manifest (see {@link
+   * previousManifestFiles}) */
+  private previousManifestIds(): string[]
+  {
+    return Object.keys(this.previousManifestFiles()).filter((chartId) => chartId != this.node.id);
+  }
+
+  /** List the container images used by this instance
+   *
+   * This covers all the containers (including the init containers) of all the charts (including
+   * {@link initChart}, {@link restoreChart} and {@link upgradeChart}). The result is sorted by
+   * image name, eg: for mirroring the images into an offline registry.
+   */
+  imageInventory(): ShanoirImageUsage[]
+  {
+    const usage: {[key: string]: string[]} = {};
+    for (const chart of [this, this.initChart, this.restoreChart, this.upgradeChart]) {
+      for (const pod of chart?.node.findAll() ?? []) {
+        if (pod instanceof AbstractPod) {
+          for (const container of [...pod.initContainers, ...pod.containers]) {
+            usage[container.image] = [...(usage[container.image] ?? []),
+                                      `${chart!.node.id}/${pod.name}/${container.name}`];
+          }
+        }
+      }
+    }
+    return Object.keys(usage).sort().map((image) => ({ image, containers: usage[image]! }));
   }
 
   /** generate the OCI image name for a given shanoir service */
   shanoirImage(service: string): string
   {
-    return `${this.props.dockerRepository}/${service}:${this.props.version}`;
+    return this.image(service);
+  }
+
+  /** generate the OCI image name of a container
+   *
+   * @param name  name of a shanoir image (see {@link shanoirImages}) or of a third-party image
+   *              (see {@link defaultImages})
+   *
+   * The default image is overridden by {@link ShanoirNGProps.images} and its registry is rewritten
+   * with {@link ShanoirNGProps.imageRegistry}.
+   */
+  image(name: string): string
+  {
+    const [defaultRepository, defaultTag] = splitImage(defaultImages[name]
+      ?? `${this.props.dockerRepository}/${name}:${this.props.version}`);
+    const override = this.props.images?.[name] ?? {};
+
+    const repository = override.repository
+      ?? rewriteRegistry(defaultRepository, this.props.imageRegistry);
+    const tag = override.tag ?? defaultTag;
+    return repository + ((tag == undefined) ? "" : `:${tag}`)
+      + ((override.digest == undefined) ? "" : `@${override.digest}`);
   }
 
   /** get or create a service
@@ -235,6 +643,28 @@ export class ShanoirNGChart extends Chart
     return svc.resourceName!;
   }
 
+  /** get the name of the service providing a shanoir microservice
+   *
+   * This is the `ms` service, unless the microservices are deployed separately (see
+   * {@link ShanoirNGProps.splitMicroservices}).
+   *
+   * @param name  name of the microservice ("users", "studies", ...)
+   * @param lazy  see {@link serviceName}
+   */
+  msServiceName(name: string, lazy?: boolean): string
+  {
+    return this.serviceName(this.splitMicroservices() ? name : "ms", lazy);
+  }
+
+  /** tell if the microservices are deployed separately
+   *
+   * (this is never the case in the initialisation mode)
+   */
+  private splitMicroservices(): boolean
+  {
+    return this.props.splitMicroservices! && !this.props.init!;
+  }
+
   /** get the internal url of the keycloak service */
   keycloakInternalUrl(): string
   {
@@ -242,6 +672,18 @@ export class ShanoirNGChart extends Chart
       `http://${this.serviceName("keycloak")}:8080/auth`;
   }
 
+  /** get the hostname of the keycloak server to be used by the nginx container
+   *
+   * When using an external keycloak server, the `/auth` location of the nginx container is not
+   * reachable (the browsers are redirected to {@link ShanoirNGProps.keycloakUrl}), however the
+   * hostname must still be resolvable for nginx to start.
+   */
+  keycloakHost(): string
+  {
+    return (this.services["keycloak"] != undefined) ? this.serviceName("keycloak")
+      : new URL(this.keycloakInternalUrl()).hostname;
+  }
+
   /** get the actual parameters for a given mysql database
    *
    * - resolve `host` to the internal database service if used
@@ -272,46 +714,181 @@ export class ShanoirNGChart extends Chart
 
   createVolumeClaims(): {[key: string]: IPersistentVolumeClaim}
   {
-    return Object.fromEntries(Object.entries(this.props.volumeClaims).map(
-      ([name, props]) => [name, new PersistentVolumeClaim(this, `${name}-pvc`, props)]
-    ));
+    return Object.fromEntries(Object.entries(this.props.volumeClaims).map(([name, props]) => {
+      const { existingClaimName, claimName, ...claimProps } = props;
+      return [name, (existingClaimName != undefined)
+        ? PersistentVolumeClaim.fromClaimName(this, `${name}-pvc`, existingClaimName)
+        : new PersistentVolumeClaim(this, `${name}-pvc`, (claimName == undefined) ? claimProps
+          : {...claimProps, metadata: {...claimProps.metadata, name: claimName}})];
+    }));
+  }
+
+  /** names of the volume claims of the data volumes (see {@link shanoirDataVolumes}) */
+  private dataVolumeClaimNames(): {[key: string]: string}
+  {
+    return Object.fromEntries(shanoirDataVolumes.filter((name) => this.volumeClaims[name])
+      .map((name) => [name, this.volumeClaims[name]!.name]));
   }
+
+  /** ensure that the data volumes are still mounted from the same volume claims as in the
+   * previous synth (see {@link ShanoirNGProps.allowVolumeClaimRenames})
+   *
+   * The claim names are read from the previous manifest of this chart. If there is none (eg: when
+   * the chart id was changed), they are read from the other previous manifests (see {@link
+   * ShanoirNGProps.previousManifestsDir}) deploying an instance in the same namespace.
+   *
+   * @throws ShanoirValidationError if a data volume would be mounted from another claim
+   */
+  private checkVolumeClaimNames()
+  {
+    const recordedIn = (manifest: ManifestObject[], namespace?: string): string | undefined =>
+      manifest.filter((obj) => namespace == undefined || obj.metadata?.namespace == namespace)
+      .map((obj) => obj.metadata?.annotations?.[volumeClaimsAnnotation])
+      .find((value) => value != undefined);
+
+    const recorded = recordedIn(this.previousManifest())
+      ?? this.previousManifestIds().map((chartId) =>
+        recordedIn(this.previousManifest(chartId), this.props.namespace))
+        .find((value) => value != undefined);
+    if (recorded == undefined) {
+      return;
+    }
+    const previous: {[key: string]: string} = JSON.parse(recorded);
+    const problems = Object.entries(this.dataVolumeClaimNames())
+      .filter(([name, claimName]) => previous[name] != undefined && previous[name] != claimName)
+      .map(([name, claimName]) => ({
+        path: `volumeClaims.${name}`,
+        message: `the volume claim would be renamed from ${previous[name]} to ${claimName}`
+          + " (the data would not be kept, see allowVolumeClaimRenames)",
+      }));
+    if (problems.length) {
+      throw new ShanoirValidationError(problems);
+    }
+  }
+
+  /** create the volumes mounting each volume claim in the containers */
   createVolumes(): {[key: string]: Volume}
   {
     return Object.fromEntries(Object.entries(this.volumeClaims).map(
       ([name, pvc]) => [name, Volume.fromPersistentVolumeClaim(this, `${name}-rv`, pvc)]));
   }
 
-  /** create a kubernetes secret with all passwords used in the chart  */
-  private createSecret(): Secret
+  /** list all passwords used in the chart
+   *
+   * Each password is either a literal value (to be stored in {@link secret}) or a reference to a
+   * key in a pre-existing secret.
+   */
+  private createPasswords(): {[key: string]: string | ShanoirSecretKeyRef}
   {
-    return new Secret(this, "sec", { stringData: {
+    const generate = this.props.generatePasswords!;
+    const generatedSecretName = this.generatedSecretName;
+
+    /** @param internal  true if the account is managed by this deployment */
+    function password(key: string, value: string | undefined,
+                      ref: ShanoirSecretKeyRef | undefined,
+                      internal: boolean): [string, string | ShanoirSecretKeyRef]
+    {
+      // (the missing passwords are reported by the validator)
+      const result = ref ?? ((generate && internal) ? { secretName: generatedSecretName, key: key }
+                             : value);
+      return [key, result!];
+    }
+
+    return Object.fromEntries([
       // create one entry for each database account ("users", "datasets", ...)
-      ...Object.fromEntries([
+      // TODO: the migrations account is excluded
+      //       (https://github.com/fli-iam/shanoir-ng/issues/3430)
+      ...[
         ...Object.entries(this.props.mysqlDatabases!),
         ...Object.entries(this.props.postgresqlDatabases!),
-      ].map(([name, cred]) => [name, cred.password])),
+      ].map(([name, cred]) => password(name, cred.password, cred.passwordRef,
+                                       cred.host == "INTERNAL" && name != "migrations")),
+
+      password("mysql-root", "password", this.props.mysqlRootPasswordRef, true),
+
+      password("keycloak-admin", this.props.keycloakCredentials.password,
+               this.props.keycloakCredentials.passwordRef, this.useInternalKeycloak),
+      password("vip-client-secret", this.props.vip!.clientSecret,
+               this.props.vip!.clientSecretRef, false),
+      (this.props.smtp.auth == undefined) ? ["smtp", "-"] : password("smtp",
+        this.props.smtp.auth.password, this.props.smtp.auth.passwordRef, false),
+    ]);
+  }
 
-      "keycloak-admin": this.props.keycloakCredentials.password,
-      "vip-client-secret": this.props.vip!.clientSecret,
-      "smtp": this.props.smtp.auth?.password ?? "-",
-    }});
+  /** create the secret holding the generated passwords (with random values)
+   *
+   * The passwords found in the manifest generated by the previous synth are kept (so that the
+   * secret does not change when re-synthesizing), only the missing ones are generated.
+   *
+   * @param scope  parent chart (should be `this.secretsChart`)
+   */
+  private createGeneratedSecret(scope: Chart): Secret
+  {
+    const keys = Object.values(this.passwords).flatMap((value) =>
+      (typeof value != "string" && value.secretName == this.generatedSecretName)
+        ? [value.key] : []);
+
+    const previous = this.previousManifest(scope.node.id).find((obj) => obj.kind == "Secret"
+      && obj.metadata?.name == this.generatedSecretName);
+    const previousValue = (key: string): string | undefined => {
+      const data = previous?.data?.[key];
+      return previous?.stringData?.[key]
+        ?? ((data == undefined) ? undefined : Buffer.from(data, "base64").toString());
+    };
+
+    return new Secret(scope, "generated-sec", {
+      metadata: { name: this.generatedSecretName },
+      stringData: Object.fromEntries(keys.map((key) =>
+        [key, previousValue(key) ?? randomBytes(24).toString("base64url")])),
+    });
+  }
+
+  /** create a kubernetes secret with all literal passwords used in the chart
+   *
+   * (the passwords referencing a pre-existing secret are not included)
+   */
+  private createSecret(): Secret
+  {
+    return new Secret(this, "sec", { stringData: Object.fromEntries(
+      Object.entries(this.passwords).filter(([_, value]) => typeof value == "string"),
+    ) as {[key: string]: string}});
+  }
+
+  /** get a pre-existing secret referenced by the chart */
+  private externalSecret(name: string): ISecret
+  {
+    let secret = this.externalSecrets[name];
+    if (secret == undefined) {
+      secret = this.externalSecrets[name] = Secret.fromSecretName(this, `${name}-ext-sec`, name);
+    }
+    return secret;
   }
 
-  /** build a k8s EnvValue from an entry in this.secret */
+  /** build a k8s EnvValue from a password
+   *
+   * The value is taken from this.secret, or from the pre-existing secret referenced in the props.
+   */
   private secretEnvValue(key: string): EnvValue {
-    return EnvValue.fromSecretValue({secret: this.secret, key: key})
+    const value = this.passwords[key];
+    assert(value != undefined, `unknown password: ${key}`);
+    if (typeof value == "string") {
+      return EnvValue.fromSecretValue({secret: this.secret, key: key});
+    } else {
+      return EnvValue.fromSecretValue({secret: this.externalSecret(value.secretName),
+                                       key: value.key});
+    }
   }
 
   /** common config map for all shanoir microservices */
   createCommonConfigMap(): ConfigMap
   {
-    assert(this.url.port == "");
-    assert(this.url.pathname == "/");
-    assert(this.viewerUrl.port == "")
-    assert(this.viewerUrl.pathname == "/")
-
-    return new ConfigMap(this, "common-cm", { data: {
+    return new ConfigMap(this, "common-cm", {
+      // (read by the next synth, see checkUpgradeVersion and checkVolumeClaimNames)
+      metadata: {
+        labels: { [versionLabel]: this.props.version! },
+        annotations: { [volumeClaimsAnnotation]: JSON.stringify(this.dataVolumeClaimNames()) },
+      },
+      data: {
       SHANOIR_PREFIX: "",
       SHANOIR_URL_SCHEME: this.url.protocol.replace(/:$/, ""),
       SHANOIR_URL_HOST: this.url.host,
@@ -377,8 +954,6 @@ export class ShanoirNGChart extends Chart
   private createVipEnvVariables(): { [key: string]: EnvValue }
   {
     const url = new URL(this.props.vip!.url);
-    assert(url.port == "");
-    assert(url.pathname == "/");
 
     return {
       VIP_URL_SCHEME: envValue(url.protocol.replace(/:$/, "")),
@@ -387,6 +962,16 @@ export class ShanoirNGChart extends Chart
 
   }
 
+  /** spring settings of the microservices receiving the uploads (see {@link uploadPaths}) */
+  private createUploadEnvVariables(): { [key: string]: EnvValue }
+  {
+    const size = `${this.props.maxUploadSize!.toMebibytes()}MB`;
+    return {
+      "spring.servlet.multipart.max-file-size": envValue(size),
+      "spring.servlet.multipart.max-request-size": envValue(size),
+    };
+  }
+
   private createKeycloakCredentialsEnvVariables(): { [key: string]: EnvValue }
   {
     return {
@@ -415,17 +1000,140 @@ export class ShanoirNGChart extends Chart
     return {
         user: uid,
         group: uid,
-        //FIXME: fsGroup may not have any effects at all
+        // NOTE: fsGroup may not have any effects at all
         //  - on ReadWriteMany pvcs
         //  - on hostpath volumes
-        //https://github.com/kubernetes/website/issues/46688
+        // https://github.com/kubernetes/website/issues/46688
+        // (see ShanoirVolumeClaimProps.fixPermissions)
         fsGroup: uid,
-        //FIXME: should allow setting the policy to ALWAYS?
-        //fsGroupChangePolicy: FsGroupChangePolicy.ON_ROOT_MISMATCH,
+        fsGroupChangePolicy: this.props.fsGroupChangePolicy,
         ...(props ?? {}),
       }
   }
 
+  /** get the resources to be allocated to a container
+   *
+   * The result is to be spread into a {@link ContainerProps} object. When no resources are listed
+   * for this container in {@link ShanoirNGProps.resources}, the container is created with an empty
+   * `resources` field (otherwise cdk8s would apply its own default requests and limits).
+   */
+  private containerResources(name: string): { resources: ContainerResources }
+  {
+    return { resources: this.props.resources![name] ?? {} };
+  }
+
+  /** create the startup, readiness and liveness probes of a container
+   *
+   * The result is to be spread into a {@link ContainerProps} object. The three probes run the same
+   * check, with the timings listed in {@link ShanoirNGProps.probes}.
+   *
+   * @param name   name of the container
+   * @param probe  function creating the probe with a given set of timings
+   */
+  private containerProbes(name: string, probe: (options: ProbeOptions) => Probe):
+    { startup: Probe, readiness: Probe, liveness: Probe }
+  {
+    const timings = {...shanoirProbeDefaults, ...defaultProbes[name], ...this.props.probes?.[name]};
+    const options = {
+      periodSeconds: Duration.seconds(timings.period),
+      timeoutSeconds: Duration.seconds(timings.timeout),
+      failureThreshold: timings.failureThreshold,
+    };
+    return {
+      startup: probe({...options,
+        failureThreshold: Math.ceil(timings.startupTimeout / timings.period)}),
+      readiness: probe(options),
+      liveness: probe(options),
+    };
+  }
+
+  /** environment variables for sizing the JVM heap of a container
+   *
+   * The maximum heap size is derived from the memory limit of the container (see
+   * {@link ShanoirNGProps.jvmHeapPercentage}).
+   */
+  private jvmEnvVariables(name: string): { [key: string]: EnvValue }
+  {
+    const limit = this.props.resources![name]?.memory?.limit;
+    if (limit == undefined) {
+      return {};
+    }
+    const heapMb = Math.floor(limit.toMebibytes({ rounding: SizeRoundingBehavior.FLOOR })
+                              * this.props.jvmHeapPercentage! / 100);
+    return {
+      JAVA_TOOL_OPTIONS: envValue(`-Xmx${heapMb}m`),
+    };
+  }
+
+  /** create an init container that waits until a list of dependencies is reachable
+   *
+   * @param deps.tcp   list of TCP endpoints ("host:port") that must accept connections
+   * @param deps.http  list of http(s) urls that must return a successful response
+   *
+   * This is intended to be put in front of the `initContainers` of a pod, so that the other
+   * containers do not start (and crash-loop) before their backend services are available.
+   */
+  private waitForDependencies(deps: { tcp?: string[], http?: string[] }): ContainerProps
+  {
+    return {
+      name: "wait-for-dependencies",
+      image: this.image("busybox"),
+      ...this.containerResources("wait-for-dependencies"),
+      command: ["/bin/sh", "-c", `
+        for dep in $WAIT_FOR_TCP ; do
+          until nc -z -w 5 "\${dep%:*}" "\${dep##*:}" ; do
+            echo "waiting for $dep" ; sleep 5
+          done
+        done
+        for url in $WAIT_FOR_HTTP ; do
+          until wget -q -T 5 -O /dev/null "$url" ; do
+            echo "waiting for $url" ; sleep 5
+          done
+        done
+      `],
+      envVariables: {
+        WAIT_FOR_TCP: envValue([...new Set(deps.tcp ?? [])].join(" ")),
+        WAIT_FOR_HTTP: envValue([...new Set(deps.http ?? [])].join(" ")),
+      },
+    };
+  }
+
+  /** metrics exporter sidecar of a database deployment (see {@link ShanoirNGProps.monitoring})
+   *
+   * @return  a list with zero or one container
+   */
+  private metricsExporters(engine: "mysql" | "postgresql"): ContainerProps[]
+  {
+    if (this.props.monitoring == undefined) {
+      return [];
+    }
+    if (engine == "mysql") {
+      return [{
+        name: "metrics-exporter",
+        image: this.image("mysqld-exporter"),
+        ...this.containerResources("metrics-exporter"),
+        args: ["--mysqld.address=127.0.0.1:3306", "--mysqld.username=root"],
+        envVariables: {
+          MYSQLD_EXPORTER_PASSWORD: this.secretEnvValue("mysql-root"),
+        },
+        ports: [{ number: 9104, name: "metrics" }],
+      }];
+    } else {
+      const db = this.props.postgresqlDatabases!["dcm4chee"]!;
+      return [{
+        name: "metrics-exporter",
+        image: this.image("postgres-exporter"),
+        ...this.containerResources("metrics-exporter"),
+        envVariables: {
+          DATA_SOURCE_URI: envValue(`127.0.0.1:5432/${db.db}?sslmode=disable`),
+          DATA_SOURCE_USER: envValue(db.username),
+          DATA_SOURCE_PASS: this.secretEnvValue("dcm4chee"),
+        },
+        ports: [{ number: 9187, name: "metrics" }],
+      }];
+    }
+  }
+
   /** common generic function for creating a deployment + an associated service
    *
    * @param scope  parent chart, should be `this` for regular deployments or `this.initChart` for
@@ -443,11 +1151,14 @@ export class ShanoirNGChart extends Chart
   private createDeployment(scope: Chart, name: string, ports: number[],
                            props: DeploymentProps): Deployment
   {
+    const securityContext = this.securityContext(name, props.securityContext);
     const deploy = new Deployment(scope, `${name}-deploy`, {
-      replicas: 1,
+      replicas: this.props.replicas?.[name] ?? 1,
       strategy: DeploymentStrategy.recreate(),
       ...props,
-      securityContext: this.securityContext(name, props.securityContext),
+      initContainers: [...this.permissionFixers(props, securityContext),
+                       ...(props.initContainers ?? [])],
+      securityContext,
     });
 
     if (ports.length) {
@@ -455,6 +1166,8 @@ export class ShanoirNGChart extends Chart
       svc.select(deploy);
       ports.forEach((p) => svc.bind(p, {name: p.toString()}));
     }
+    this.applyScheduling(name, deploy);
+    this.addWorkload(name, deploy);
     return deploy
   }
 
@@ -465,23 +1178,499 @@ export class ShanoirNGChart extends Chart
    * @param name   base name of the deployment and service
    * @param ports  list of TCP ports included in the service
    * @param props  job properties
+   * @param id     id of the job (default: `${name}-job`), for creating several jobs of the same
+   *               component
    * @return       the created job
    *
    * 'props.securityContext' is processed through {@link this.securityContext}.
    */
-  private createJob(scope: Chart, name: string, props: JobProps): Job
+  private createJob(scope: Chart, name: string, props: JobProps, id?: string): Job
   {
-    return new Job(scope, `${name}-job`, {
+    const securityContext = this.securityContext(name, props.securityContext);
+    const job = new Job(scope, id ?? `${name}-job`, {
       ...props,
-      securityContext: this.securityContext(name, props.securityContext),
+      initContainers: [...this.permissionFixers(props, securityContext),
+                       ...(props.initContainers ?? [])],
+      securityContext,
     });
+    this.applyScheduling(name, job);
+    this.addWorkload(name, job);
+    return job;
   }
 
-  private deployMailpit(): Deployment
+  /** create the init container giving the ownership of the volumes mounted by a pod to the uid
+   * of their containers (see {@link ShanoirVolumeClaimProps.fixPermissions})
+   *
+   * Only the files owned by root are changed, and the subpaths mounted by other pods are skipped
+   * (so that a volume can be shared by pods running with different uids, eg: the `logs` volume).
+   * The dcm4chee volumes are given to the hardcoded uids of the dcm4chee images (see {@link
+   * dcm4cheeVolumeUids}).
+   *
+   * @param props            props of the pod
+   * @param securityContext  security context of the pod (see {@link securityContext})
+   * @return                 the init container (or an empty list if there is nothing to fix)
+   */
+  private permissionFixers(props: AbstractPodProps,
+                           securityContext: PodSecurityContextProps): ContainerProps[]
   {
-    return this.createDeployment(this, "mailpit", [1025, 8025], {
+    const volumes = Object.entries(this.volumes).filter(
+      ([name]) => this.props.volumeClaims[name]?.fixPermissions);
+
+    // directories to be fixed, indexed by "<volume>/<subpath>:<uid>"
+    const dirs = new Map<string, { volume: Volume, subPath: string, uid: number }>();
+    for (const container of [...(props.initContainers ?? []), ...(props.containers ?? [])]) {
+      for (const mount of container.volumeMounts ?? []) {
+        const name = volumes.find(([_, volume]) => volume == mount.volume)?.[0];
+        const uid = (name == undefined) ? undefined
+          : dcm4cheeVolumeUids[name] ?? container.securityContext?.user ?? securityContext.user;
+        if (uid && !mount.readOnly) {
+          const subPath = mount.subPath ?? "";
+          const volume = mount.volume;
+          dirs.set(`${volume.name}/${subPath}:${uid}`, { volume, subPath, uid });
+        }
+      }
+    }
+    if (dirs.size == 0) {
+      return [];
+    }
+
+    // (the script is produced at synth time, when the mounts of all the pods are known)
+    const script = Lazy.any({ produce: () => {
+      const onRootMismatch = this.props.fsGroupChangePolicy == FsGroupChangePolicy.ON_ROOT_MISMATCH;
+      return ["set -e", ...[...dirs.values()].flatMap(({ volume, subPath, uid }) => {
+        const path = `/volumes/${volume.name}` + (subPath ? `/${subPath}` : "");
+        const skipped = this.mountedSubPaths(volume).filter((p) => p.startsWith(`${subPath}/`)
+          || (subPath == "" && p != "")).map((p) => `-path /volumes/${volume.name}/${p}`);
+        return [
+          `mkdir -p ${path}`,
+          (onRootMismatch ? `[ "$(stat -c %u ${path})" != 0 ] || ` : "")
+            + `find ${path} `
+            + (skipped.length ? `\\( ${skipped.join(" -o ")} \\) -prune -o ` : "")
+            + `-user 0 -exec chown ${uid}:${uid} {} +`,
+        ];
+      })].join("\n");
+    }});
+
+    return [{
+      name: "fix-permissions",
+      image: this.image("busybox"),
+      ...this.containerResources("fix-permissions"),
+      command: ["/bin/sh", "-c", script],
+      volumeMounts: [...new Set([...dirs.values()].map((d) => d.volume))].map(
+        (volume) => ({ path: `/volumes/${volume.name}`, volume })),
+      securityContext: { user: 0, group: 0, ensureNonRoot: false },
+    }];
+  }
+
+  /** list the subpaths of a volume mounted by the containers of all the charts */
+  private mountedSubPaths(volume: Volume): string[]
+  {
+    const subPaths = new Set<string>();
+    for (const chart of [this, this.initChart, this.restoreChart, this.upgradeChart]) {
+      for (const pod of chart?.node.findAll() ?? []) {
+        if (pod instanceof AbstractPod) {
+          for (const container of [...pod.initContainers, ...pod.containers]) {
+            container.mounts.filter((m) => m.volume == volume && m.subPath != undefined)
+              .forEach((m) => subPaths.add(m.subPath!));
+          }
+        }
+      }
+    }
+    return [...subPaths];
+  }
+
+  /** apply the scheduling constraints of a component (see {@link ShanoirNGProps.scheduling})
+   *
+   * (they are added with a json patch because cdk8s-plus supports only a subset of them)
+   */
+  private applyScheduling(name: string, pod: AbstractPod)
+  {
+    const scheduling = this.props.scheduling?.[name];
+    if (scheduling == undefined) {
+      return;
+    }
+    const spec = {
+      nodeSelector: scheduling.nodeSelector,
+      affinity: k8s.toJson_Affinity(scheduling.affinity),
+      tolerations: scheduling.tolerations?.map((t) => k8s.toJson_Toleration(t)),
+      topologySpreadConstraints: scheduling.topologySpreadConstraints?.map(
+        (c) => k8s.toJson_TopologySpreadConstraint(c)),
+      priorityClassName: scheduling.priorityClassName,
+    };
+    for (const [key, value] of Object.entries(spec)) {
+      if (value != undefined) {
+        ApiObject.of(pod).addJsonPatch(JsonPatch.add(`${podSpecPath(pod)}/${key}`, value));
+      }
+    }
+  }
+
+  /** list the pods of the main chart that write into a log volume (see {@link
+   * ShanoirNGProps.logging})
+   *
+   * @return  a list of [component name, pod, log volumes mounted by the pod]
+   */
+  private logWritingPods(): [string, AbstractPod, Volume[]][]
+  {
+    const logVolumes = ["logs", "dcm4chee-logs"].map((name) => this.volumes[name]!);
+    return Object.entries(this.workloads).flatMap(([name, pods]) =>
+      pods.filter((pod) => Chart.of(pod) == this).flatMap((pod) => {
+        const mounted = new Set([...pod.initContainers, ...pod.containers].flatMap(
+          (c) => c.mounts.map((m) => m.volume)));
+        const volumes = logVolumes.filter((v) => mounted.has(v));
+        return volumes.length ? [[name, pod, volumes] as [string, AbstractPod, Volume[]]] : [];
+      }));
+  }
+
+  /** add a sidecar copying the log files of each pod that writes into a log volume to its
+   * standard output (see {@link ShanoirLoggingProps.mode})
+   *
+   * The files are followed by name (so that they survive the rotations), and the files created
+   * later are picked up by polling the volumes.
+   */
+  private addLogTailers()
+  {
+    for (const [_, pod, volumes] of this.logWritingPods()) {
+      pod.addInitContainer({
+        name: "log-tail",
+        restartPolicy: ContainerRestartPolicy.ALWAYS,
+        image: this.image("busybox"),
+        ...this.containerResources("log-tail"),
+        command: ["/bin/sh", "-c", `
+          seen=" "
+          while true ; do
+            for file in $(find /logs -type f -name "*.log") ; do
+              case "$seen" in *" $file "*) continue ;; esac
+              seen="$seen$file "
+              tail -n +1 -F "$file" &
+            done
+            sleep 10
+          done
+        `],
+        volumeMounts: volumes.map((volume) =>
+          ({ path: `/logs/${volume.name}`, volume, readOnly: true })),
+      });
+    }
+  }
+
+  /** add a Fluent Bit sidecar forwarding the log files of each pod that writes into a log volume
+   * (see {@link ShanoirLoggingProps.fluentBit})
+   */
+  private addLogShippers()
+  {
+    const output = this.props.logging!.fluentBit!;
+    const param = (key: string, value: string | number) => `    ${key.padEnd(16)}${value}`;
+
+    const config = new ConfigMap(this, "fluent-bit-cm", { data: { "fluent-bit.conf": [
+      "[SERVICE]",
+      param("Flush", 5),
+      param("Log_Level", "warn"),
+      "",
+      "[INPUT]",
+      param("Name", "tail"),
+      param("Path", "/logs/*/*.log,/logs/*/*/*.log"),
+      param("Path_Key", "file"),
+      param("Tag", "shanoir.*"),
+      param("Read_from_Head", "On"),
+      param("Mem_Buf_Limit", "5MB"),
+      param("Skip_Long_Lines", "On"),
+      "",
+      "[FILTER]",
+      param("Name", "record_modifier"),
+      param("Match", "*"),
+      param("Record", `namespace ${this.props.namespace}`),
+      param("Record", "component ${SHANOIR_COMPONENT}"),
+      param("Record", "pod ${SHANOIR_POD}"),
+      "",
+      "[OUTPUT]",
+      param("Name", output.plugin),
+      param("Match", "*"),
+      param("Host", output.host),
+      ...((output.port == undefined) ? [] : [param("Port", output.port)]),
+      ...Object.entries(output.options ?? {}).map(([key, value]) => param(key, value)),
+      "",
+    ].join("\n")}});
+    const configVolume = Volume.fromConfigMap(this, "fluent-bit-cv", config);
+
+    for (const [name, pod, volumes] of this.logWritingPods()) {
+      pod.addInitContainer({
+        name: "log-shipper",
+        restartPolicy: ContainerRestartPolicy.ALWAYS,
+        image: this.image("fluent-bit"),
+        ...this.containerResources("log-shipper"),
+        args: ["-c", "/fluent-bit/etc/shanoir/fluent-bit.conf"],
+        envVariables: {
+          SHANOIR_COMPONENT: EnvValue.fromValue(name),
+          SHANOIR_POD: EnvValue.fromFieldRef(EnvFieldPaths.POD_NAME),
+        },
+        volumeMounts: [
+          { path: "/fluent-bit/etc/shanoir", volume: configVolume },
+          ...volumes.map((volume) => ({ path: `/logs/${volume.name}`, volume, readOnly: true })),
+        ],
+      });
+    }
+  }
+
+  /** force the deployments mounting a ReadWriteOnce shared volume to run on the same node (see
+   * {@link shanoirSharedVolumes})
+   *
+   * The deployments are co-located with the first one mounting such a volume (nifti-conversion).
+   */
+  private colocateSharedVolumes()
+  {
+    const volumes = shanoirSharedVolumes.filter((name) => this.volumes[name] != undefined
+      && !this.props.volumeClaims[name]?.accessModes?.includes(
+        PersistentVolumeAccessMode.READ_WRITE_MANY))
+      .map((name) => this.volumes[name]!);
+
+    const [first, ...others] = Object.values(this.workloads).flat().filter(
+      (pod): pod is Deployment => Chart.of(pod) == this && pod instanceof Deployment
+      && [...pod.initContainers, ...pod.containers].some(
+        (c) => c.mounts.some((m) => volumes.includes(m.volume))));
+    for (const pod of others) {
+      pod.scheduling.colocate(first!);
+    }
+  }
+
+  /** create the PodDisruptionBudget of the stateful components (see {@link
+   * ShanoirNGProps.disruptionBudget})
+   *
+   * The pods of the listed components are labelled so that they are selected by a single budget.
+   */
+  private createDisruptionBudget()
+  {
+    const budget = this.props.disruptionBudget!;
+    const label = "shanoir-ng/disruption-budget";
+
+    for (const name of budget.components!) {
+      for (const pod of this.workloads[name] ?? []) {
+        if (Chart.of(pod) == this && pod instanceof Deployment) {
+          pod.podMetadata.addLabel(label, "true");
+        }
+      }
+    }
+    new ApiObject(this, "pdb", {
+      apiVersion: "policy/v1",
+      kind: "PodDisruptionBudget",
+      spec: {
+        maxUnavailable: budget.maxUnavailable,
+        selector: { matchLabels: { [label]: "true" } },
+      },
+    });
+  }
+
+  /** register the pods of a component (see {@link createNetworkPolicies}) */
+  private addWorkload(name: string, pod: AbstractPod)
+  {
+    this.workloads[name] = [...(this.workloads[name] ?? []), pod];
+  }
+
+  /** record a network connection between two components
+   *
+   * @param from  name of the client component (as registered in `this.workloads`),
+   *              "ingress-controller", "dicom-clients" (the external DICOM nodes) or
+   *              "prometheus"
+   * @param host  hostname of the server
+   * @param port  TCP port of the server
+   *
+   * The connections to a host that is not a service of this deployment are ignored. The recorded
+   * connections are used for generating the network policies (see {@link createNetworkPolicies}).
+   */
+  private connect(from: string, host: string, port: number)
+  {
+    const to = Object.keys(this.services).find((name) => this.services[name]!.resourceName == host);
+    if (to != undefined) {
+      this.connections.push({ from, to, port });
+    }
+  }
+
+  /** record a network connection to the server of a http(s) url (see {@link connect}) */
+  private connectUrl(from: string, url: string)
+  {
+    const u = new URL(url);
+    this.connect(from, u.hostname,
+                 (u.port != "") ? parseInt(u.port) : (u.protocol == "https:") ? 443 : 80);
+  }
+
+  /** record a network connection to the mailpit service (if used as the smtp relay) */
+  private connectSmtp(from: string)
+  {
+    if (this.props.smtp.host == undefined) {
+      this.connect(from, this.serviceName("mailpit", true), 1025);
+    }
+  }
+
+  /** create the prometheus monitors and alerts (see {@link ShanoirNGProps.monitoring})
+   *
+   * The metrics endpoints are declared by the containers themselves (named ports), this function
+   * creates a PodMonitor for each monitored component of this chart (the initialisation jobs are
+   * not monitored).
+   */
+  private createMonitoring()
+  {
+    const monitoring = this.props.monitoring!;
+    const namespace = this.props.namespace!;
+    const metadata = { labels: monitoring.labels ?? {} };
+
+    const actuator = (name: string) =>
+      ({ port: name, portNumber: msPorts[name]!, path: "/actuator/prometheus" });
+    const endpoints: {[key: string]: { port: string, portNumber: number, path?: string }[]} = {
+      "database":           [{ port: "metrics", portNumber: 9104 }],
+      "keycloak-database":  [{ port: "metrics", portNumber: 9104 }],
+      "dcm4chee-database":  [{ port: "metrics", portNumber: 9187 }],
+      "rabbitmq":           [{ port: "metrics", portNumber: 15692 }],
+      // NOTE: keycloak serves its metrics on the management interface
+      "keycloak":           [{ port: "management", portNumber: 9000, path: "/auth/metrics" }],
+      ...(this.splitMicroservices()
+        ? Object.fromEntries(Object.keys(msPorts).map((name) => [name, [actuator(name)]]))
+        : { "ms": Object.keys(msPorts).map(actuator) }),
+    };
+
+    for (const [name, eps] of Object.entries(endpoints)) {
+      const pods = (this.workloads[name] ?? []).filter((pod) =>
+        Chart.of(pod) == this && pod instanceof Deployment) as Deployment[];
+      for (const pod of pods) {
+        eps.forEach((ep) => this.connect("prometheus", this.serviceName(name), ep.portNumber));
+        new ApiObject(this, `${name}-podmon`, {
+          apiVersion: "monitoring.coreos.com/v1",
+          kind: "PodMonitor",
+          metadata: metadata,
+          spec: {
+            selector: { matchLabels: pod.matchLabels },
+            podMetricsEndpoints: eps.map((ep) => ({
+              port: ep.port,
+              path: ep.path,
+              interval: monitoring.scrapeInterval,
+            })),
+          },
+        });
+      }
+    }
+
+    const claims = Object.values(this.volumeClaims).map((claim) => claim.name).join("|");
+    new ApiObject(this, "alerts-rule", {
+      apiVersion: "monitoring.coreos.com/v1",
+      kind: "PrometheusRule",
+      metadata: metadata,
+      spec: {
+        groups: [{
+          name: `shanoir-${namespace}`,
+          rules: [
+            {
+              alert: "ShanoirVolumeFull",
+              expr: `100 * kubelet_volume_stats_used_bytes{namespace="${namespace}",`
+                + `persistentvolumeclaim=~"${claims}"} / kubelet_volume_stats_capacity_bytes`
+                + ` > ${monitoring.diskUsageThreshold}`,
+              for: "15m",
+              labels: { severity: "warning" },
+              annotations: {
+                summary: "volume {{ $labels.persistentvolumeclaim }} is"
+                  + " {{ $value | humanize }}% full",
+              },
+            },
+            {
+              alert: "ShanoirPodRestarting",
+              expr: `increase(kube_pod_container_status_restarts_total{namespace="${namespace}"}`
+                + "[1h]) > 3",
+              labels: { severity: "warning" },
+              annotations: {
+                summary: "container {{ $labels.container }} of pod {{ $labels.pod }} restarted"
+                  + " {{ $value | humanize }} times in the last hour",
+              },
+            },
+            {
+              alert: "ShanoirQueueBacklog",
+              expr: `sum(rabbitmq_queue_messages_ready{namespace="${namespace}"})`
+                + ` > ${monitoring.queueBacklogThreshold}`,
+              for: "30m",
+              labels: { severity: "warning" },
+              annotations: {
+                summary: "{{ $value | humanize }} messages pending in rabbitmq",
+              },
+            },
+          ],
+        }],
+      },
+    });
+  }
+
+  /** add the image pull secrets to all the pods (see {@link ShanoirNGProps.imagePullSecrets})
+   *
+   * This applies to the pods of all the charts (cdk8s-plus does not support image pull secrets, so
+   * they are added with a json patch).
+   */
+  private addImagePullSecrets()
+  {
+    const secrets = this.props.imagePullSecrets!.map((name) => ({ name }));
+    for (const chart of [this, this.initChart, this.restoreChart, this.upgradeChart]) {
+      for (const pod of chart?.node.findAll() ?? []) {
+        const path = podSpecPath(pod);
+        if (path != undefined) {
+          ApiObject.of(pod).addJsonPatch(JsonPatch.add(`${path}/imagePullSecrets`, secrets));
+        }
+      }
+    }
+  }
+
+  /** create the network policies (see {@link ShanoirNGProps.networkPolicies})
+   *
+   * This creates a default-deny policy and, for each component, a policy allowing the connections
+   * recorded with {@link connect}. Each policy is created in the same chart as the pods it
+   * applies to.
+   */
+  private createNetworkPolicies()
+  {
+    new NetworkPolicy(this, "deny-all-netpol", {
+      ingress: { default: NetworkPolicyTrafficDefault.DENY },
+    });
+    for (const chart of [this.initChart, this.upgradeChart]) {
+      if (chart != undefined) {
+        new NetworkPolicy(chart, "deny-all-netpol", {
+          ingress: { default: NetworkPolicyTrafficDefault.DENY },
+        });
+      }
+    }
+
+    const ingressController = Namespaces.select(this, "ingress-controller-ns", {
+      names: [this.props.ingress.controllerNamespace ?? "ingress-nginx"],
+    });
+    const dicomRanges = this.props.dicom?.allowedSourceRanges ?? [];
+    const dicomClients = dicomRanges.length ? dicomRanges.map((range, i) =>
+      range.includes(":") ? NetworkPolicyIpBlock.ipv6(this, `dicom-clients-${i}-ip`, range)
+                          : NetworkPolicyIpBlock.ipv4(this, `dicom-clients-${i}-ip`, range))
+      : [NetworkPolicyIpBlock.anyIpv4(this, "dicom-clients-ip")];
+    const prometheus = Namespaces.select(this, "prometheus-ns", {
+      names: [this.props.monitoring?.namespaceName ?? shanoirMonitoringDefaults.namespaceName],
+    });
+    const peers = (from: string): INetworkPolicyPeer[] =>
+      (from == "ingress-controller") ? [ingressController]
+      : (from == "dicom-clients") ? dicomClients
+      : (from == "prometheus") ? [prometheus]
+      : (this.workloads[from] ?? []);
+
+    for (const to of new Set(this.connections.map((c) => c.to))) {
+      const connections = this.connections.filter((c) => c.to == to);
+      const sources = [...new Set(connections.map((c) => c.from))];
+
+      for (const pod of this.workloads[to] ?? []) {
+        new NetworkPolicy(Chart.of(pod), `${to}-netpol`, {
+          selector: pod,
+          ingress: { rules: sources.flatMap((from) => peers(from).map((peer) => ({
+            peer: peer,
+            ports: [...new Set(connections.filter((c) => c.from == from).map((c) => c.port))]
+              .map((port) => NetworkPolicyPort.tcp(port)),
+          })))},
+        });
+      }
+    }
+  }
+
+  private deployMailpit(): Deployment
+  {
+    return this.createDeployment(this, "mailpit", [1025, 8025], {
       containers: [{
-        image: "axllent/mailpit",
+        image: this.image("mailpit"),
+        ...this.containerResources("mailpit"),
+        ...this.containerProbes("mailpit", (o) => Probe.fromHttpGet("/readyz", {...o, port: 8025})),
         securityContext: { readOnlyRootFilesystem: false },
       }]
     });
@@ -489,12 +1678,31 @@ export class ShanoirNGChart extends Chart
 
   private deployRabbitmq(): Deployment
   {
+    // enable the prometheus plugin (see {@link ShanoirNGProps.monitoring})
+    let metrics: Partial<ContainerProps> = {};
+    if (this.props.monitoring != undefined) {
+      const plugins = new ConfigMap(this, "rabbitmq-plugins-cm", { data: {
+        "enabled_plugins": "[rabbitmq_prometheus].\n",
+      }});
+      metrics = {
+        ports: [{ number: 15692, name: "metrics" }],
+        volumeMounts: [{ path: "/etc/rabbitmq/enabled_plugins", subPath: "enabled_plugins",
+                         volume: Volume.fromConfigMap(this, "rabbitmq-plugins-cv", plugins) }],
+      };
+    }
+
     return this.createDeployment(this, "rabbitmq", [5672], { containers: [{
-      image: "rabbitmq:3.10.7",
-      ...noResources,
+      image: this.image("rabbitmq"),
+      ...this.containerResources("rabbitmq"),
+      ...this.containerProbes("rabbitmq",
+                              (o) => Probe.fromCommand(["rabbitmq-diagnostics", "-q", "ping"], o)),
+      ports: metrics.ports,
       volumeMounts: [
         { path: "/var/lib/rabbitmq/mnesia", volume: this.volumes["rabbitmq-data"] },
-        { path: "/var/log/rabbitmq", volume: this.volumes["logs"], subPath: "rabbitmq" },
+        // rabbitmq logs to stdout when there is no log volume
+        ...((this.props.logging?.mode == "stdout") ? [] : [
+          { path: "/var/log/rabbitmq", volume: this.volumes["logs"], subPath: "rabbitmq" }]),
+        ...(metrics.volumeMounts ?? []),
       ],
     }]});
   }
@@ -512,11 +1720,14 @@ export class ShanoirNGChart extends Chart
           extraArgs: [ "--max_allowed_packet", "20000000"],
         };
       let tmp = Volume.fromEmptyDir(this, `${name}-tmp`, "tmp", { sizeLimit: Size.mebibytes(8) });
+      const passwords = this.mysqlPasswordsInitScript(name);
 
       return this.createDeployment(this, name, [3306], { 
         containers: [{
           image: this.shanoirImage(name),
-          ...noResources,
+          ...this.containerResources(name),
+          ...this.containerProbes(name, (o) => Probe.fromCommand(
+            ["mysqladmin", "ping", "-h", "127.0.0.1"], o)),
           args: [
             // Fix k8s and old mysql
             // https://stackoverflow.com/questions/37644118/initializing-mysql-directory-error
@@ -524,53 +1735,84 @@ export class ShanoirNGChart extends Chart
             ...opt.extraArgs,
           ],
           envVariables: {
-            "MYSQL_ROOT_PASSWORD": envValue("password"),
+            "MYSQL_ROOT_PASSWORD": this.secretEnvValue("mysql-root"),
             ...opt.extraEnv,
+            ...passwords.envVariables,
           },
           volumeMounts: [
             { path: "/var/lib/mysql",       volume: this.volumes[opt.volumeName] },
             { path: "/tmp",                 volume: tmp, subPath: "tmp" },
             { path: "/var/lib/mysql-files", volume: tmp, subPath: "mysql-files" },
             { path: "/var/run/mysqld",      volume: tmp, subPath: "mysqld" },
+            ...passwords.volumeMounts ?? [],
           ],
-        }],
+        }, ...this.metricsExporters("mysql")],
       });
   }
 
+  /** apply the generated passwords to the accounts hosted by an internal mysql database
+   *
+   * The accounts are created by the database image (with a default password) when initialising
+   * an empty data directory. With {@link ShanoirNGProps.generatePasswords}, an additional script
+   * is installed in `/docker-entrypoint-initdb.d` for setting the generated passwords afterwards
+   * (like the image scripts, it is run only once, at the initialisation of the database).
+   *
+   * @return  the environment variables and volume mounts to be added to the database container
+   */
+  private mysqlPasswordsInitScript(name: "database"|"keycloak-database"): Partial<ContainerProps>
+  {
+    const accounts = Object.keys(this.props.mysqlDatabases!).filter((db) => {
+      const value = this.passwords[db];
+      return ((db == "keycloak") == (name == "keycloak-database"))
+        && typeof value != "string" && value?.secretName == this.generatedSecretName;
+    });
+    if (accounts.length == 0) {
+      return {};
+    }
+    const envName = (db: string) => `SHANOIR_${db.toUpperCase().replace(/-/g, "_")}_PASSWORD`;
+
+    const configMap = new ConfigMap(this, `${name}-passwords-cm`, { data: {
+      "zz-shanoir-passwords.sh": [
+        "# set the generated passwords of the shanoir accounts (sourced by the mysql entrypoint)",
+        "set_password() {",
+        "  hosts=$(MYSQL_PWD=\"$MYSQL_ROOT_PASSWORD\" mysql -uroot -N -B \\",
+        "    -e \"SELECT host FROM mysql.user WHERE user='$1'\") && [ -n \"$hosts\" ] || {",
+        "    echo >&2 \"error: mysql account '$1' not found\"",
+        "    return 1",
+        "  }",
+        "  for host in $hosts ; do",
+        "    MYSQL_PWD=\"$MYSQL_ROOT_PASSWORD\" mysql -uroot \\",
+        "      -e \"ALTER USER '$1'@'$host' IDENTIFIED BY '$2'\" || return 1",
+        "  done",
+        "}",
+        // (no quoting needed: the generated passwords are base64url-encoded)
+        ...accounts.map((db) =>
+          `set_password '${this.props.mysqlDatabases![db]!.username}' "$${envName(db)}"`),
+        "",
+      ].join("\n"),
+    }});
+
+    return {
+      envVariables: Object.fromEntries(accounts.map((db) =>
+        [envName(db), this.secretEnvValue(db)])),
+      volumeMounts: [{
+        path: "/docker-entrypoint-initdb.d/zz-shanoir-passwords.sh",
+        subPath: "zz-shanoir-passwords.sh",
+        volume: Volume.fromConfigMap(this, `${name}-passwords-cv`, configMap),
+      }],
+    };
+  }
+
   private deployKeycloak(): Deployment
   {
     const db = this.mysqlDatabase("keycloak")!;
     let tmp = Volume.fromEmptyDir(this, "keycloak-tmp", "tmp", { sizeLimit: Size.mebibytes(8) });
 
-    let self = this;
-    function kcContainer(migration: string): ContainerProps {
-      return {
-        image: self.shanoirImage("keycloak"),
-        ...noResources,
-        envFrom: [new EnvFrom(self.commonConfigMap)],
-        envVariables: {
-          ...self.keycloakCredentialsEnvVariables,
-          ...self.smtpEnvVariables,
-          KC_DB_URL_HOST: envValue(db.host),
-          KC_DB_URL_PORT: envValue(db.port!.toString()),
-          KC_DB_URL_DATABASE: envValue(db.db),
-          KC_DB_USERNAME: envValue(db.username),
-          KC_DB_PASSWORD: self.secretEnvValue("keycloak"),
-          KC_HOSTNAME_DEBUG: envValue("true"),
-          SHANOIR_ALLOWED_ADMIN_IPS: envValue(self.props.allowedAdminIps!.join(",")),
-          SHANOIR_MIGRATION: envValue(migration),
-          SHANOIR_USERS_HOST: envValue(self.serviceName("ms", true)),
-        },
-        volumeMounts: [
-          { path: "/tmp", volume: tmp },
-        ],
-        securityContext: {
-          // the image must be mounted in read-write mode because keycloak may rebuild the
-          // executable on startup
-          readOnlyRootFilesystem: false,
-        }
-      };
-    }
+    this.connect("keycloak", db.host, db.port!);
+    this.connect("keycloak", this.msServiceName("users", true), msPorts["users"]!);
+    this.connectSmtp("keycloak");
+
+    const kcContainer = (migration: string) => this.keycloakContainer(migration, tmp);
 
     if (this.props.init) {
       return this.createDeployment(this.initChart!, "keycloak", [8080], {
@@ -585,13 +1827,97 @@ export class ShanoirNGChart extends Chart
     }
   }
 
+  /** keycloak container (see {@link deployKeycloak})
+   *
+   * @param migration  value of SHANOIR_MIGRATION ("never" for the regular container)
+   * @param tmp        volume to be mounted in /tmp
+   */
+  private keycloakContainer(migration: string, tmp: Volume): ContainerProps
+  {
+    const db = this.mysqlDatabase("keycloak")!;
+    return {
+      image: this.shanoirImage("keycloak"),
+      ...this.containerResources("keycloak"),
+      // (probes are not allowed in the init container)
+      ...((migration == "never") ? this.containerProbes("keycloak",
+        (o) => Probe.fromHttpGet("/auth/realms/master", {...o, port: 8080})) : {}),
+      envFrom: [new EnvFrom(this.commonConfigMap)],
+      envVariables: {
+        ...this.keycloakCredentialsEnvVariables,
+        ...this.smtpEnvVariables,
+        KC_DB_URL_HOST: envValue(db.host),
+        KC_DB_URL_PORT: envValue(db.port!.toString()),
+        KC_DB_URL_DATABASE: envValue(db.db),
+        KC_DB_USERNAME: envValue(db.username),
+        KC_DB_PASSWORD: this.secretEnvValue("keycloak"),
+        KC_HOSTNAME_DEBUG: envValue("true"),
+        SHANOIR_ALLOWED_ADMIN_IPS: envValue(this.props.allowedAdminIps!.join(",")),
+        SHANOIR_MIGRATION: envValue(migration),
+        SHANOIR_USERS_HOST: envValue(this.msServiceName("users", true)),
+        ...((this.props.monitoring == undefined) ? {}
+          : { KC_METRICS_ENABLED: envValue("true") }),
+      },
+      ports: (this.props.monitoring == undefined) ? undefined
+        : [{ number: 9000, name: "management" }],
+      volumeMounts: [
+        { path: "/tmp", volume: tmp },
+      ],
+      securityContext: {
+        // the image must be mounted in read-write mode because keycloak may rebuild the
+        // executable on startup
+        readOnlyRootFilesystem: false,
+      }
+    };
+  }
+
+  /** Create the shanoir-ng realm on an external keycloak server
+   *
+   * This job is the counterpart of the 'init' migration of the internal keycloak deployment. It
+   * uses the admin cli bundled in the shanoir keycloak image to import the realm through the
+   * admin REST api (the realm is left untouched if it already exists).
+   */
+  private initExternalKeycloak(): Job
+  {
+    let tmp = Volume.fromEmptyDir(this.initChart!, "keycloak-tmp", "tmp",
+                                  { sizeLimit: Size.mebibytes(8) });
+
+    return this.createJob(this.initChart!, "keycloak", {
+      restartPolicy: RestartPolicy.NEVER,
+      containers: [{
+        image: this.shanoirImage("keycloak"),
+        ...this.containerResources("keycloak"),
+        command: ["/bin/sh", "-c", `
+          set -e
+          kcadm() { /opt/keycloak/bin/kcadm.sh "$@" --config /tmp/kcadm.config; }
+          kcadm config credentials --server "$KEYCLOAK_URL" --realm master \
+            --user "$SHANOIR_KEYCLOAK_USER" --password "$SHANOIR_KEYCLOAK_PASSWORD"
+          if kcadm get realms/shanoir-ng >/dev/null 2>&1 ; then
+            echo "realm shanoir-ng already exists"
+          else
+            kcadm create realms -f "$KEYCLOAK_REALM_FILE"
+          fi
+        `],
+        envVariables: {
+          ...this.keycloakCredentialsEnvVariables,
+          KEYCLOAK_URL: envValue(this.keycloakInternalUrl()),
+          KEYCLOAK_REALM_FILE: envValue("/opt/keycloak/data/import/shanoir-ng-realm.json"),
+        },
+        volumeMounts: [
+          { path: "/tmp", volume: tmp },
+        ],
+      }],
+    });
+  }
+
   private deploySolr(): Deployment
   {
     let tmp = Volume.fromEmptyDir(this, "solr-tmp", "tmp", { sizeLimit: Size.mebibytes(8) });
 
     return this.createDeployment(this, "solr", [8983], { containers: [{
       image: this.shanoirImage("solr"),
-      ...noResources,
+      ...this.containerResources("solr"),
+      ...this.containerProbes("solr", (o) => Probe.fromHttpGet(
+        "/solr/admin/info/system", {...o, port: 8983})),
       envVariables: {
         SOLR_LOG_LEVEL: envValue("SEVERE"),
       },
@@ -607,8 +1933,10 @@ export class ShanoirNGChart extends Chart
     let tmp = Volume.fromEmptyDir(this, `dcm4chee-database-tmp`, "tmp", { sizeLimit: Size.mebibytes(1) });
 
     return this.createDeployment(this, "dcm4chee-database", [5432], { containers: [{
-      image: "dcm4che/postgres-dcm4chee:14.4-27",
-      ...noResources,
+      image: this.image("dcm4chee-database"),
+      ...this.containerResources("dcm4chee-database"),
+      ...this.containerProbes("dcm4chee-database", (o) => Probe.fromCommand(
+        ["sh", "-c", 'pg_isready -h 127.0.0.1 -U "$POSTGRES_USER" -d "$POSTGRES_DB"'], o)),
       volumeMounts: [
         { path: "/var/lib/postgresql/data", volume: this.volumes["dcm4chee-database-data"] },
         { path: "/var/run/postgresql", volume:tmp, subPath: "run" },
@@ -620,12 +1948,13 @@ export class ShanoirNGChart extends Chart
         // the server runs as uid 999
         ensureNonRoot: false,
       },
-    }]});
+    }, ...this.metricsExporters("postgresql")]});
   }
 
   private deployDcm4chee(): Deployment
   {
     const dcm4cheeDb = this.postgresqlDatabase("dcm4chee");
+    this.connect("dcm4chee", dcm4cheeDb.host, dcm4cheeDb.port!);
     let self = this;
     function optVolume(name: string, sizeMb: number): Volume {
       return self.volumes[name]
@@ -637,14 +1966,16 @@ export class ShanoirNGChart extends Chart
       initContainers: [{
         name: "ldap",
         restartPolicy: ContainerRestartPolicy.ALWAYS,
-        image: "dcm4che/slapd-dcm4chee:2.6.2-27.0",
-        ...noResources,
+        image: this.image("dcm4chee-ldap"),
+        ...this.containerResources("dcm4chee-ldap"),
+        ...this.containerProbes("dcm4chee-ldap", (o) => Probe.fromTcpSocket({...o, port: 389})),
         volumeMounts: [
           { path: "/var/lib/openldap/openldap-data", volume: optVolume("dcm4chee-ldap-data", 4) },
           { path: "/etc/openldap/slapd.d", volume: optVolume("dcm4chee-sldap-data", 4) },
         ],
         envVariables: {
           STORAGE_DIR: envValue("/storage/fs1"),
+          ...this.dicomEnvVariables(),
         },
         securityContext: {
           // slapd requires being started as root, with the rootfs in read-write mode because it
@@ -652,12 +1983,14 @@ export class ShanoirNGChart extends Chart
           ensureNonRoot: false,
           readOnlyRootFilesystem: false,
         },
-      }],
+      }, ...this.dicomRemoteAesContainers()],
       // dcm4chee-arc app container
       containers: [{
         name: "dcm4chee-arc",
-        image: "dcm4che/dcm4chee-arc-psql:5.27.0",
-        ...noResources,
+        image: this.image("dcm4chee-arc"),
+        ...this.containerResources("dcm4chee"),
+        ...this.containerProbes("dcm4chee",
+                                (o) => Probe.fromHttpGet("/dcm4chee-arc/aets", {...o, port: 8081})),
         volumeMounts: [
           { path: "/storage", volume: this.volumes["dcm4chee-arc-storage-data"] },
           { path: "/opt/wildfly/standalone", volume: optVolume("dcm4chee-arc-wildfly-data", 64) },
@@ -691,28 +2024,154 @@ export class ShanoirNGChart extends Chart
       externalName: `${this.serviceName("dcm4chee")}.${self.props.namespace}.svc.cluster.local`,
     });
 
+    if (this.props.dicom != undefined) {
+      this.createDicomService(deploy);
+    }
     return deploy;
   }
 
-  /** Deploy the shanoir microservices */
-  private deployMicroservices(): Deployment | undefined
+  /** environment variables of the ldap container configuring the archive device (see {@link
+   * ShanoirNGProps.dicom}) */
+  private dicomEnvVariables(): { [key: string]: EnvValue }
   {
-    const migrationsDb = this.mysqlDatabase("migrations");
+    const dicom = this.props.dicom;
+    if (dicom == undefined) {
+      return {};
+    }
+    return {
+      AE_TITLE: envValue(dicom.aeTitle!),
+      ...((dicom.hostname == undefined) ? {} : { ARCHIVE_HOST: envValue(dicom.hostname) }),
+    };
+  }
+
+  /** init container registering the remote AEs in the ldap configuration (see {@link
+   * ShanoirDicomProps.remoteAes})
+   *
+   * It is run after the startup of the ldap sidecar. The entries that already exist are left
+   * unchanged (ldapadd returns 68).
+   */
+  private dicomRemoteAesContainers(): ContainerProps[]
+  {
+    const remoteAes = this.props.dicom?.remoteAes ?? [];
+    if (!remoteAes.length) {
+      return [];
+    }
+
+    const baseDn = "cn=DICOM Configuration,dc=dcm4che,dc=org";
+    const ldif = remoteAes.map((ae) => {
+      const deviceDn = `dicomDeviceName=${ae.aeTitle},cn=Devices,${baseDn}`;
+      return [
+        `dn: ${deviceDn}`,
+        "objectClass: dicomDevice",
+        `dicomDeviceName: ${ae.aeTitle}`,
+        "dicomInstalled: TRUE",
+        "",
+        `dn: cn=dicom,${deviceDn}`,
+        "objectClass: dicomNetworkConnection",
+        "cn: dicom",
+        `dicomHostname: ${ae.hostname}`,
+        `dicomPort: ${ae.port}`,
+        "",
+        `dn: dicomAETitle=${ae.aeTitle},${deviceDn}`,
+        "objectClass: dicomNetworkAE",
+        `dicomAETitle: ${ae.aeTitle}`,
+        `dicomNetworkConnectionReference: cn=dicom,${deviceDn}`,
+        "dicomAssociationInitiator: TRUE",
+        "dicomAssociationAcceptor: TRUE",
+        "",
+        `dn: dicomAETitle=${ae.aeTitle},cn=Unique AE Titles Registry,${baseDn}`,
+        "objectClass: dicomUniqueAETitle",
+        `dicomAETitle: ${ae.aeTitle}`,
+        "",
+      ].join("\n");
+    }).join("\n");
+
+    const configMap = new ConfigMap(this, "dcm4chee-remote-aes-cm", { data: {
+      "remote-aes.ldif": ldif,
+    }});
+
+    return [{
+      name: "remote-aes",
+      image: this.image("dcm4chee-ldap"),
+      ...this.containerResources("dcm4chee-remote-aes"),
+      // (the credentials of the ldap admin account are taken from the environment of the image,
+      // like in the ldap sidecar)
+      command: ["/bin/sh", "-c", `
+        ldapadd -c -x -H ldap://127.0.0.1:389 -D "cn=admin,$LDAP_BASE_DN" -w "$LDAP_ROOTPASS" \\
+          -f /ldif/remote-aes.ldif
+        rc=$?
+        [ $rc -eq 0 ] || [ $rc -eq 68 ]
+      `],
+      volumeMounts: [
+        { path: "/ldif", volume: Volume.fromConfigMap(this, "dcm4chee-remote-aes-cv", configMap) },
+      ],
+      securityContext: {
+        // the ldap image is started as root (like the ldap sidecar)
+        ensureNonRoot: false,
+        readOnlyRootFilesystem: false,
+      },
+    }];
+  }
+
+  /** create the service exposing the DICOM port outside the cluster (see {@link
+   * ShanoirNGProps.dicom}) */
+  private createDicomService(deploy: Deployment): Service
+  {
+    const dicom = this.props.dicom!;
+    this.connect("dicom-clients", this.serviceName("dcm4chee"), 11112);
+
+    const service = new Service(this, "dicom-svc", {
+      type: (dicom.serviceType == "NodePort") ? ServiceType.NODE_PORT
+        : ServiceType.LOAD_BALANCER,
+      selector: deploy,
+      ports: [{ name: "dicom", port: 11112, targetPort: 11112, nodePort: dicom.nodePort }],
+      loadBalancerSourceRanges: (dicom.serviceType == "NodePort") ? undefined
+        : dicom.allowedSourceRanges,
+    });
+    // preserve the source ip of the clients (needed for filtering them in the network policies)
+    ApiObject.of(service).addJsonPatch(JsonPatch.add("/spec/externalTrafficPolicy", "Local"));
+    return service;
+  }
+
+  /** Deploy the shanoir microservices
+   *
+   * @return  the list of deployments created (empty in the initialisation mode)
+   */
+  private deployMicroservices(): Deployment[]
+  {
+    // (its credentials are not configurable, see ShanoirNGValidator)
     // TODO: https://github.com/fli-iam/shanoir-ng/issues/3430
-    assert(migrationsDb.db=="migrations" &&
-           migrationsDb.username=="migrations" &&
-           migrationsDb.password=="password");
+    const migrationsDb = this.mysqlDatabase("migrations");
 
     let self=this;
+
+    /** name of the pod running a microservice */
+    function podName(name: string): string {
+      return (name == "nifti-conversion" || self.splitMicroservices()) ? name : "ms";
+    }
+
+    /** create the container of a microservice
+     *
+     * @param props.migration  value of SHANOIR_MIGRATION (default: "never")
+     * @param props.pod        name of the pod running the container (default: `podName(name)`)
+     */
     function shanoirContainer(name: string, hasDatabase: boolean,
                               props: {
+                                migration?: string,
+                                pod?: string,
                                 envVariables?: { [key: string]: EnvValue },
                                 extraVolumeMounts?: VolumeMount[],
                               }): ContainerProps
     {
+      const migration = props.migration ?? "never";
+      const pod = props.pod ?? podName(name);
+      self.connect(pod, self.serviceName("rabbitmq"), 5672);
+      self.connectUrl(pod, self.keycloakInternalUrl());
+
       let dbVariables = {};
       if (hasDatabase) {
         const db = self.mysqlDatabase(name);
+        self.connect(pod, db.host, db.port!);
         dbVariables = {
           "SHANOIR_DB_HOST": envValue(db.host),
           "SHANOIR_DB_PORT": envValue(db.port!.toString()),
@@ -722,17 +2181,32 @@ export class ShanoirNGChart extends Chart
         };
       }
 
+      // probes are useless in the migration jobs (the containers exit after the migrations)
+      const port = msPorts[name];
+      const probes = (port == undefined || migration != "never") ? {} : self.containerProbes(name,
+        (o) => Probe.fromTcpSocket({...o, port: port}));
+
+      // metrics endpoint (see ShanoirNGProps.monitoring)
+      const monitored = (port != undefined && migration == "never"
+                         && self.props.monitoring != undefined);
+
       return {
           name: name,
           image: self.shanoirImage(name),
-          ...noResources,
+          ...self.containerResources(name),
+          ...probes,
           envFrom: [ new EnvFrom(self.commonConfigMap), ],
           envVariables: {
-            SHANOIR_MIGRATION: envValue(self.props.init! ? "init" : "never"),
+            SHANOIR_MIGRATION: envValue(migration),
             SHANOIR_KEYCLOAK_INTERNAL_URL: envValue(self.keycloakInternalUrl()),
             "spring.rabbitmq.host": envValue(self.serviceName("rabbitmq")),
+            ...self.jvmEnvVariables(name),
+            ...(monitored ? {
+              "management.endpoints.web.exposure.include": envValue("health,prometheus"),
+            } : {}),
             ...dbVariables,
             ...props.envVariables ?? {}},
+          ports: monitored ? [{ number: port!, name: name }] : undefined,
           volumeMounts: [
             // NOTE: currently the studies, import, datasets, preclinical and nifti-conversion
             //       containers must share the same "/tmp" volume
@@ -740,102 +2214,221 @@ export class ShanoirNGChart extends Chart
             { path: "/var/log/shanoir-ng-logs", volume: self.volumes["logs"]! },
             ...(props.extraVolumeMounts ?? [])
           ],
-          securityContext: self.securityContext("ms", {}),
+          securityContext: self.securityContext(self.splitMicroservices() ? name : "ms", {}),
       };
     }
 
-    let shanoirProps = {
-      initContainers: [ {
-          name: "database-migrations",
-          image: this.shanoirImage("database-migrations"),
-          ...noResources,
-          envVariables: {
-            // TODO: support db/port/username/password
-            MYSQL_HOST: envValue(migrationsDb.host),
-            SHANOIR_MIGRATION: envValue(this.props.init! ? "init" : "manual"),
-          },
-        }
-      ],
-      containers: [
-        shanoirContainer("users", true, {
-          envVariables: {
-            ...this.keycloakCredentialsEnvVariables,
-            ...this.smtpEnvVariables,
-            "kc.admin.client.server.url": envValue(
-              `http://${this.serviceName("keycloak")}:8080/auth`),
-            "VIP_SERVICE_EMAIL": envValue(this.props.vip!.serviceEmail),
-          },
-        }),
-        shanoirContainer("studies", true, {
-          extraVolumeMounts: [
-            { path: "/var/studies-data", volume: this.volumes["studies-data"]! },
-            // This is related to participants.tsv file
-            { path: "/var/datasets-data", volume: this.volumes["datasets-data"]! },
-          ],
-        }),
-
-        shanoirContainer("import", true, {}),
+    /** create the containers of the microservices (users, studies, import, datasets, preclinical)
+     *
+     * @param migration    value of SHANOIR_MIGRATION in the microservices
+     * @param dbMigration  value of SHANOIR_MIGRATION in the database-migrations init container
+     * @param pod          name of the pod running all the containers (default: see `podName`)
+     */
+    function shanoirProps(migration: string, dbMigration: string, pod?: string)
+    {
+      const msPod = (name: string) => pod ?? podName(name);
+
+      // backend services needed by the microservices
+      const dependencies = {
+        tcp: [
+          ...["users", "studies", "import", "datasets", "preclinical", "migrations"].map((name) => {
+            const db = self.mysqlDatabase(name);
+            return `${db.host}:${db.port}`;
+          }),
+          `${self.serviceName("rabbitmq")}:5672`,
+          `${self.serviceName("solr")}:8983`,
+        ],
+        // in the initialisation mode, the 'users' container needs the shanoir-ng realm to be
+        // available (for synchronising the initial users)
+        http: (migration == "init") ? [`${self.keycloakInternalUrl()}/realms/shanoir-ng`] : [],
+      };
 
-        shanoirContainer("datasets", true, {
-          envVariables: {
-            SHANOIR_SOLR_HOST: envValue(this.serviceName("solr")),
-            ...this.vipEnvVariables,
-            VIP_CLIENT_SECRET: this.secretEnvValue("vip-client-secret"),
-          },
-          extraVolumeMounts: [
-            { path: "/var/datasets-data", volume: this.volumes["datasets-data"] },
-          ],
-        }),
+      // connections of the other containers (see below)
+      for (const name of Object.keys(msPorts)) {
+        self.connect(msPod(name), migrationsDb.host, migrationsDb.port!);
+      }
+      self.connectSmtp(msPod("users"));
+      self.connect(msPod("datasets"), self.serviceName("solr"), 8983);
+      self.connect(msPod("datasets"), self.serviceName("dcm4chee"), 8081);
+      self.connect(msPod("datasets"), self.serviceName("dcm4chee"), 11112);
 
-        shanoirContainer("preclinical", true, {
-          extraVolumeMounts: [
-            { path: "/var/extra-data", volume: this.volumes["extra-data"] },
-          ],
-        }),
-    ]};
+      return {
+        initContainers: [
+          self.waitForDependencies(dependencies),
+          {
+            name: "database-migrations",
+            image: self.shanoirImage("database-migrations"),
+            ...self.containerResources("database-migrations"),
+            envVariables: {
+              // TODO: support db/port/username/password
+              MYSQL_HOST: envValue(migrationsDb.host),
+              SHANOIR_MIGRATION: envValue(dbMigration),
+            },
+          }
+        ],
+        containers: [
+          shanoirContainer("users", true, {
+            migration, pod,
+            envVariables: {
+              ...self.keycloakCredentialsEnvVariables,
+              ...self.smtpEnvVariables,
+              "kc.admin.client.server.url": envValue(self.keycloakInternalUrl()),
+              "VIP_SERVICE_EMAIL": envValue(self.props.vip!.serviceEmail),
+            },
+          }),
+          shanoirContainer("studies", true, {
+            migration, pod,
+            extraVolumeMounts: [
+              { path: "/var/studies-data", volume: self.volumes["studies-data"]! },
+              // This is related to participants.tsv file
+              { path: "/var/datasets-data", volume: self.volumes["datasets-data"]! },
+            ],
+          }),
+
+          shanoirContainer("import", true, {
+            migration, pod,
+            envVariables: self.uploadEnvVariables,
+          }),
+
+          shanoirContainer("datasets", true, {
+            migration, pod,
+            envVariables: {
+              SHANOIR_SOLR_HOST: envValue(self.serviceName("solr")),
+              ...self.vipEnvVariables,
+              ...self.uploadEnvVariables,
+              VIP_CLIENT_SECRET: self.secretEnvValue("vip-client-secret"),
+            },
+            extraVolumeMounts: [
+              { path: "/var/datasets-data", volume: self.volumes["datasets-data"] },
+            ],
+          }),
+
+          shanoirContainer("preclinical", true, {
+            migration, pod,
+            extraVolumeMounts: [
+              { path: "/var/extra-data", volume: self.volumes["extra-data"] },
+            ],
+          }),
+      ]};
+    }
 
     if (this.props.init!) {
       // initialisation mode
       this.createJob(this.initChart!, "ms", {
-        ...shanoirProps,
+        ...shanoirProps("init", "init"),
         restartPolicy: RestartPolicy.NEVER,
       });
-      // bind a dummy port to the service (to avoid an exception due to lazy creation)
-      this.services["ms"]!.bind(9900, { name: "dummy"})
-      return undefined;
+      // bind a dummy port to the service if it was lazily created by the keycloak deployment
+      // (to avoid an exception due to lazy creation)
+      this.services["ms"]?.bind(9900, { name: "dummy"})
+      return [];
+    }
 
-    } else {
-      // normal mode
-      this.createDeployment(this, "nifti-conversion", [], { containers: [
+    if (this.props.upgrade != undefined) {
+      // upgrade mode: the migrations are run in a single job (so that they are applied in
+      // sequence), while the deployments below are scaled down
+      //
+      // The microservices keep running once their migrations are applied (SHANOIR_MIGRATION=auto),
+      // thus they are run as sidecar containers, and the job completes when its main container
+      // has seen all of them listening on their port (the sidecars are then terminated). The
+      // job is aborted if the migrations are not complete within `upgrade.timeout`.
+      const upgradeProps = shanoirProps("auto", "auto", "upgrade");
+      const [waitForDependencies, ...migrations] = upgradeProps.initContainers;
+      this.createJob(this.upgradeChart!, "upgrade", {
+        initContainers: [
+          waitForDependencies!, ...this.preUpgradeContainers(), ...migrations,
+          ...upgradeProps.containers.map((container) =>
+            ({ ...container, restartPolicy: ContainerRestartPolicy.ALWAYS })),
+        ],
+        containers: [{
+          ...this.waitForDependencies({ tcp: upgradeProps.containers.map((container) =>
+            `127.0.0.1:${msPorts[container.name!]}`) }),
+          name: "wait-for-migrations",
+        }],
+        restartPolicy: RestartPolicy.NEVER,
+        activeDeadline: this.props.upgrade.timeout,
+      });
+    }
+
+    // normal mode
+    const replicas = (this.props.upgrade != undefined) ? { replicas: 0 } : {};
+    const msProps = shanoirProps("never", "manual");
+    const niftiConversion = this.createDeployment(this, "nifti-conversion", [], {
+      ...replicas,
+      initContainers: [
+        this.waitForDependencies({ tcp: [`${this.serviceName("rabbitmq")}:5672`] }),
+      ],
+      containers: [
         shanoirContainer("nifti-conversion", false, {
           extraVolumeMounts: [
             { path: "/var/datasets-data", volume: this.volumes["datasets-data"]! },
           ],
         }),
-      ]});
+      ],
+    });
 
-      return this.createDeployment(this, "ms", [9901, 9902, 9903, 9904, 9905], shanoirProps);
+    if (this.splitMicroservices()) {
+      // one deployment for each microservice
+      //
+      // The database migrations are run by the users deployment only (so that they are not run
+      // concurrently by each deployment when restarting or scaling up).
+      const [waitForDependencies] = msProps.initContainers;
+      return [niftiConversion, ...msProps.containers.map((container) =>
+        this.createDeployment(this, container.name!, [msPorts[container.name!]!], {
+          ...replicas,
+          initContainers: (container.name == "users") ? msProps.initContainers
+            : [waitForDependencies!],
+          containers: [container],
+        }))];
+    } else {
+      // all microservices in a single deployment
+      return [niftiConversion,
+        this.createDeployment(this, "ms", Object.values(msPorts), { ...replicas, ...msProps })];
     }
   }
 
   private deployNginx(): Deployment
   {
-    return this.createDeployment(this, "nginx", [80], { containers: [{
+    for (const [name, port] of Object.entries(msPorts)) {
+      this.connect("nginx", this.msServiceName(name), port);
+    }
+    this.connect("nginx", this.keycloakHost(), 8080);
+
+    // NOTE: these directives are included in the 'http' context (thus they apply to all
+    //       endpoints, the ingress is in charge of enforcing the limit on the upload paths only)
+    const timeout = this.props.uploadTimeout!.toSeconds();
+    const uploadConfig = new ConfigMap(this, "nginx-upload-cm", { data: {
+      "upload.conf": [
+        `client_max_body_size ${this.props.maxUploadSize!.toMebibytes()}m;`,
+        `proxy_read_timeout ${timeout}s;`,
+        `proxy_send_timeout ${timeout}s;`,
+        "",
+      ].join("\n"),
+    }});
+
+    // (scaled down in the upgrade mode, see ShanoirNGProps.upgrade)
+    return this.createDeployment(this, "nginx", [80], {
+      ...((this.props.upgrade != undefined) ? { replicas: 0 } : {}),
+      containers: [{
       image: this.shanoirImage("nginx"),
-      ...noResources,
+      ...this.containerResources("nginx"),
+      ...this.containerProbes("nginx", (o) => Probe.fromHttpGet("/", {...o, port: 80})),
       volumeMounts: [
-        { path: "/var/log/nginx", volume: this.volumes["logs"], subPath: "nginx" },
+        // the nginx image logs to stdout when /var/log/nginx is not mounted
+        ...((this.props.logging?.mode == "stdout") ? [] : [
+          { path: "/var/log/nginx", volume: this.volumes["logs"], subPath: "nginx" }]),
+        { path: "/etc/nginx/conf.d/upload.conf", subPath: "upload.conf",
+          volume: Volume.fromConfigMap(this, "nginx-upload-cv", uploadConfig) },
       ],
       envFrom: [ new EnvFrom(this.commonConfigMap)],
       envVariables: {
         ...this.vipEnvVariables,
-        // FIXME: will fail if using an external keycloak server
-        SHANOIR_KEYCLOAK_HOST: envValue(this.serviceName("keycloak")),
-        SHANOIR_USERS_HOST: envValue(this.serviceName("ms")),
-        SHANOIR_STUDIES_HOST: envValue(this.serviceName("ms")),
-        SHANOIR_IMPORT_HOST: envValue(this.serviceName("ms")),
-        SHANOIR_DATASETS_HOST: envValue(this.serviceName("ms")),
-        SHANOIR_PRECLINICAL_HOST: envValue(this.serviceName("ms")),
+        SHANOIR_KEYCLOAK_HOST: envValue(this.keycloakHost()),
+        SHANOIR_USERS_HOST: envValue(this.msServiceName("users")),
+        SHANOIR_STUDIES_HOST: envValue(this.msServiceName("studies")),
+        SHANOIR_IMPORT_HOST: envValue(this.msServiceName("import")),
+        SHANOIR_DATASETS_HOST: envValue(this.msServiceName("datasets")),
+        SHANOIR_PRECLINICAL_HOST: envValue(this.msServiceName("preclinical")),
       },
       // FIXME: should not run as root
       securityContext: {
@@ -845,55 +2438,504 @@ export class ShanoirNGChart extends Chart
     }]});
   }
 
-  private createIngress(): Ingress
+  /** Deploy the cron jobs for backing up the databases (see {@link ShanoirNGProps.backup}) */
+  private deployBackups(): CronJob[]
+  {
+    const backup = this.props.backup!;
+    // (the schedule is checked by the validator)
+    const [minute, hour, day, month, weekDay] = backup.schedule!.trim().split(/\s+/);
+    const schedule = Cron.schedule({ minute, hour, day, month, weekDay });
+
+    return this.backupContainers("backup").map((container) => {
+      // NOTE: all backup jobs share the same uid (so that they can write in the backup volume)
+      const securityContext = this.securityContext("backup");
+      const containers = [{ ...container, name: "backup" }];
+      const cronJob = new CronJob(this, `${container.name}-cj`, {
+        securityContext: securityContext,
+        schedule: schedule,
+        timeZone: backup.timeZone,
+        concurrencyPolicy: ConcurrencyPolicy.FORBID,
+        restartPolicy: RestartPolicy.NEVER,
+        initContainers: this.permissionFixers({ containers }, securityContext),
+        containers: containers,
+      });
+      this.applyScheduling("backup", cronJob);
+      this.addWorkload("backup", cronJob);
+      return cronJob;
+    });
+  }
+
+  /** Create the containers dumping each database into the backup volume
+   *
+   * These containers are used by the backup cron jobs (see {@link deployBackups}) and by the
+   * upgrade job (see {@link preUpgradeContainers}). Each container is named
+   * `backup-<engine>-<database>`.
+   *
+   * @param from  name of the component running the containers (see {@link connect})
+   */
+  private backupContainers(from: string): ContainerProps[]
+  {
+    const backup = this.props.backup!;
+
+    // shell script writing the output of the dump command ($DUMP) into a timestamped file and
+    // purging the older dumps
+    const script = `
+      set -euo pipefail
+      dir="/backup/$BACKUP_DIR"
+      file="$dir/$BACKUP_NAME-$(date +%Y%m%d-%H%M%S).sql.gz"
+      mkdir -p "$dir"
+      eval "$DUMP" | gzip > "$file.tmp"
+      mv "$file.tmp" "$file"
+      echo "created $file"
+      ls -1t "$dir"/"$BACKUP_NAME"-*.sql.gz | tail -n +$((BACKUP_RETENTION + 1)) \
+        | xargs -r rm -fv --
+    `;
+
+    const self = this;
+    function backupContainer(engine: "mysql" | "postgresql", name: string, image: string,
+                             envVariables: {[key: string]: EnvValue}, dump: string): ContainerProps
+    {
+      return {
+        name: `backup-${engine}-${name}`,
+        image: image,
+        ...self.containerResources("backup"),
+        command: ["/bin/bash", "-c", script],
+        envVariables: {
+          ...envVariables,
+          BACKUP_DIR: envValue(`${engine}/${name}`),
+          BACKUP_NAME: envValue(name),
+          BACKUP_RETENTION: envValue(backup.retention!.toString()),
+          DUMP: envValue(dump),
+        },
+        volumeMounts: [
+          { path: "/backup", volume: self.volumes["backup"]! },
+        ],
+      };
+    }
+
+    return [
+      ...Object.keys(this.props.mysqlDatabases!)
+        .filter((name) => this.useInternalKeycloak || name != "keycloak")
+        .map((name) => {
+          const db = this.mysqlDatabase(name);
+          this.connect(from, db.host, db.port!);
+          return backupContainer("mysql", name, this.shanoirImage("database"), {
+            DB_HOST: envValue(db.host),
+            DB_PORT: envValue(db.port!.toString()),
+            DB_NAME: envValue(db.db),
+            DB_USER: envValue(db.username),
+            MYSQL_PWD: this.secretEnvValue(name),
+          }, 'mysqldump --single-transaction --routines --triggers'
+             + ' -h "$DB_HOST" -P "$DB_PORT" -u "$DB_USER" "$DB_NAME"');
+        }),
+      ...Object.keys(this.props.postgresqlDatabases!).map((name) => {
+        const db = this.postgresqlDatabase(name);
+        this.connect(from, db.host, db.port!);
+        return backupContainer("postgresql", name, this.image("dcm4chee-database"), {
+          DB_HOST: envValue(db.host),
+          DB_PORT: envValue(db.port!.toString()),
+          DB_NAME: envValue(db.db),
+          DB_USER: envValue(db.username),
+          PGPASSWORD: this.secretEnvValue(name),
+        }, 'pg_dump --clean --if-exists -h "$DB_HOST" -p "$DB_PORT" -U "$DB_USER" "$DB_NAME"');
+      }),
+    ];
+  }
+
+  /** Create the init containers of the upgrade job to be run before the migrations
+   *
+   * - a dump of each database (see {@link ShanoirUpgradeProps.skipBackup})
+   * - the update of the shanoir-ng realm (if using the internal keycloak server)
+   *
+   * The containers run with the uids of the backup cron jobs and of the keycloak deployment.
+   */
+  private preUpgradeContainers(): ContainerProps[]
+  {
+    const uid = (name: string) =>
+      ({ user: this.props.uids![name]!, group: this.props.uids![name]! });
+
+    const backups = (this.props.backup == undefined || this.props.upgrade!.skipBackup) ? []
+      : this.backupContainers("upgrade").map((container) => ({
+        ...container,
+        securityContext: uid("backup"),
+      }));
+    if (!this.useInternalKeycloak) {
+      return backups;
+    }
+
+    const db = this.mysqlDatabase("keycloak");
+    this.connect("upgrade", db.host, db.port!);
+    const tmp = Volume.fromEmptyDir(this.upgradeChart!, "keycloak-tmp", "tmp",
+                                    { sizeLimit: Size.mebibytes(8) });
+    const keycloak = this.keycloakContainer("auto", tmp);
+    // (keycloak keeps running after the update of the realm, thus it is run as a sidecar and the
+    // next containers are started once it is up, ie: when its startup probe succeeds)
+    const timeout = this.props.upgrade!.timeout!;
+    return [...backups, {
+      ...keycloak,
+      name: "keycloak-migrations",
+      restartPolicy: ContainerRestartPolicy.ALWAYS,
+      startup: Probe.fromHttpGet("/auth/realms/master", {
+        port: 8080,
+        periodSeconds: Duration.seconds(10),
+        failureThreshold: Math.ceil(timeout.toSeconds() / 10),
+      }),
+      securityContext: { ...keycloak.securityContext, ...uid("keycloak") },
+    }];
+  }
+
+  /** Create the job for loading the database dumps (see {@link ShanoirNGProps.restore})
+   *
+   * @param scope  parent chart (should be `this.restoreChart`)
+   *
+   * The job runs one container for each database. The dumps are read from the layout produced by
+   * {@link deployBackups}.
+   */
+  private restoreDatabases(scope: Chart): Job
+  {
+    const restore = this.props.restore!;
+    const backupVolume = Volume.fromPersistentVolumeClaim(scope, "backup-rv",
+      PersistentVolumeClaim.fromClaimName(scope, "backup-pvc", restore.backupClaimName),
+      { readOnly: true });
+
+    // sed script for replacing the hostnames of the source instance
+    const sedScript = [
+      [restore.sourceUrl, this.url.host],
+      [restore.sourceViewerUrl, this.viewerUrl.host],
+    ].flatMap(([source, target]) => (source == undefined) ? [] : [
+      `s#//${new URL(source).host.replace(/\./g, "\\.")}#//${target}#g`
+    ]).join(";");
+
+    // shell script loading the selected dump with the load command ($LOAD)
+    const script = `
+      set -euo pipefail
+      dir="/backup/$BACKUP_DIR"
+      if [ -n "$BACKUP_TIMESTAMP" ] ; then
+        file="$dir/$BACKUP_NAME-$BACKUP_TIMESTAMP.sql.gz"
+      else
+        file="$(ls -1t "$dir"/"$BACKUP_NAME"-*.sql.gz | head -n 1)"
+      fi
+      echo "restoring $file"
+      gunzip -c "$file" | sed -e "$SED_SCRIPT" | eval "$LOAD"
+      echo "restored $file"
+    `;
+
+    const self = this;
+    function restoreContainer(engine: "mysql" | "postgresql", name: string, image: string,
+                              db: ShanoirDatabaseProps,
+                              envVariables: {[key: string]: EnvValue}, load: string): ContainerProps
+    {
+      return {
+        name: `${engine}-${name}`,
+        image: image,
+        ...self.containerResources("restore"),
+        command: ["/bin/bash", "-c", script],
+        envVariables: {
+          ...envVariables,
+          DB_HOST: envValue(db.host),
+          DB_PORT: envValue(db.port!.toString()),
+          DB_NAME: envValue(db.db),
+          DB_USER: envValue(db.username),
+          BACKUP_DIR: envValue(`${engine}/${name}`),
+          BACKUP_NAME: envValue(name),
+          BACKUP_TIMESTAMP: envValue(restore.timestamp ?? ""),
+          SED_SCRIPT: envValue(sedScript),
+          LOAD: envValue(load),
+        },
+        volumeMounts: [
+          { path: "/backup", volume: backupVolume },
+        ],
+      };
+    }
+
+    const mysqlDatabases = Object.keys(this.props.mysqlDatabases!)
+      .filter((name) => this.useInternalKeycloak || name != "keycloak")
+      .map((name): [string, ShanoirDatabaseProps] => [name, this.mysqlDatabase(name)]);
+    const postgresqlDatabases = Object.keys(this.props.postgresqlDatabases!)
+      .map((name): [string, ShanoirDatabaseProps] => [name, this.postgresqlDatabase(name)]);
+    for (const [_, db] of [...mysqlDatabases, ...postgresqlDatabases]) {
+      this.connect("restore", db.host, db.port!);
+    }
+
+    return this.createJob(scope, "restore", {
+      restartPolicy: RestartPolicy.NEVER,
+      initContainers: [
+        this.waitForDependencies({ tcp: [...mysqlDatabases, ...postgresqlDatabases].map(
+          ([_, db]) => `${db.host}:${db.port}`) }),
+      ],
+      containers: [
+        ...mysqlDatabases.map(([name, db]) => restoreContainer(
+          "mysql", name, this.shanoirImage("database"), db,
+          { MYSQL_PWD: this.secretEnvValue(name) },
+          'mysql -h "$DB_HOST" -P "$DB_PORT" -u "$DB_USER" "$DB_NAME"')),
+        ...postgresqlDatabases.map(([name, db]) => restoreContainer(
+          "postgresql", name, this.image("dcm4chee-database"), db,
+          { PGPASSWORD: this.secretEnvValue(name) },
+          'psql -v ON_ERROR_STOP=1 -h "$DB_HOST" -p "$DB_PORT" -U "$DB_USER" "$DB_NAME"')),
+      ],
+    });
+  }
+
+  /** Create the jobs for copying the data volumes (see {@link ShanoirNGProps.restore})
+   *
+   * @param scope  parent chart (should be `this.restoreChart`)
+   */
+  private restoreVolumes(scope: Chart): Job[]
+  {
+    return Object.entries(this.props.restore!.volumeClaimNames ?? {}).map(([name, claimName]) => {
+      // (the unknown volumes are reported by the validator)
+      const source = Volume.fromPersistentVolumeClaim(scope, `restore-${name}-rv`,
+        PersistentVolumeClaim.fromClaimName(scope, `restore-${name}-pvc`, claimName),
+        { readOnly: true });
+
+      // NOTE: the copy must be run as root to preserve the ownership of the files (the volumes
+      //       are used by containers running with different uids), and without fsGroup (which
+      //       would change the group of the restored files)
+      return this.createJob(scope, "restore", {
+        restartPolicy: RestartPolicy.NEVER,
+        securityContext: { user: 0, group: 0, ensureNonRoot: false, fsGroup: undefined },
+        containers: [{
+          image: this.image("busybox"),
+          ...this.containerResources("restore"),
+          command: ["/bin/sh", "-c", "cp -a /source/. /target/ && echo done"],
+          volumeMounts: [
+            { path: "/source", volume: source },
+            { path: "/target", volume: this.volumes[name]! },
+          ],
+          securityContext: { user: 0, group: 0, ensureNonRoot: false },
+        }],
+      }, `restore-${name}-job`);
+    });
+  }
+
+  /** domains covered by the TLS certificate of the ingress */
+  private ingressTlsHosts(): string[]
+  {
+    const mailpitHost = this.props.smtp.mailpit?.host;
+    return [this.url.host, this.viewerUrl.host,
+            ...((mailpitHost == undefined) ? [] : [mailpitHost])];
+  }
+
+  /** TLS secret of the ingress (if any) */
+  private ingressTlsSecret(): ISecret | undefined
   {
     let ingress = this.props.ingress;
-    let tls = undefined;
-    let rules = [];
 
-    if (ingress.tlsCrt && ingress.tlsKey) {
-      tls = [{
-        hosts: [this.url.host, this.viewerUrl.host],
-        secret: new Secret(this, "tls-sec", { stringData: {
-          "tls.crt": ingress.tlsCrt,
-          "tls.key": ingress.tlsKey,
-        }})}];
+    if (ingress.certIssuer != undefined) {
+      // the secret is created (and renewed) by cert-manager
+      const certificate = new ApiObject(this, "tls-cert", {
+        apiVersion: "cert-manager.io/v1",
+        kind: "Certificate",
+        spec: {
+          dnsNames: this.ingressTlsHosts(),
+          issuerRef: {
+            group: "cert-manager.io",
+            kind: ingress.certIssuer.kind ?? "ClusterIssuer",
+            name: ingress.certIssuer.name,
+          },
+        },
+      });
+      certificate.addJsonPatch(JsonPatch.add("/spec/secretName", certificate.name));
+      return Secret.fromSecretName(this, "tls-cert-sec", certificate.name);
+    } else if (ingress.tlsSecretName != undefined) {
+      return this.externalSecret(ingress.tlsSecretName);
+    } else if (ingress.tlsCrt && ingress.tlsKey) {
+      return new Secret(this, "tls-sec", { stringData: {
+        "tls.crt": ingress.tlsCrt,
+        "tls.key": ingress.tlsKey,
+      }});
     }
+    return undefined;
+  }
+
+  /** expose the http services (with the flavor selected in {@link ShanoirIngressProps.flavor}) */
+  private createIngress()
+  {
+    let ingress = this.props.ingress;
+    let routes: IngressRoute[] = [];
 
     if (this.services["nginx"] != undefined) {
-      let nginxBackend = IngressBackend.fromService(this.services["nginx"]!);
-      rules.push({ host: this.url.host, backend: nginxBackend });
-      rules.push({ host: this.viewerUrl.host, backend: nginxBackend });
+      this.connect("ingress-controller", this.serviceName("nginx"), 80);
+      const nginx = { service: this.services["nginx"]!, port: 80 };
+      routes.push({ ...nginx, host: this.url.host });
+      routes.push({ ...nginx, host: this.viewerUrl.host });
+      for (const path of uploadPaths) {
+        routes.push({ ...nginx, host: this.url.host, path: path, upload: true });
+      }
     }
 
-    if (this.services["keycloak"] != undefined && ingress.exposeKeycloakAdminConsole) { 
-      let keycloakBackend = IngressBackend.fromService(this.services["keycloak"]!);
-      rules.push({ host: this.url.host, path: "/auth/admin/", backend: keycloakBackend});
-      rules.push({ host: this.url.host, path: "/auth/realms/master/", backend: keycloakBackend});
-      rules.push({ host: this.url.host, path: "/auth/resources/", backend: keycloakBackend});
+    // NOTE: when using an external keycloak server, '/auth' is not routed at all (the keycloak
+    //       service does not exist)
+    if (this.services["keycloak"] != undefined && ingress.exposeKeycloakAdminConsole) {
+      this.connect("ingress-controller", this.serviceName("keycloak"), 8080);
+      const keycloak = { service: this.services["keycloak"]!, port: 8080, host: this.url.host };
+      routes.push({ ...keycloak, path: "/auth/admin/" });
+      routes.push({ ...keycloak, path: "/auth/realms/master/" });
+      routes.push({ ...keycloak, path: "/auth/resources/" });
     }
 
     if (this.props.smtp.mailpit?.host != undefined) {
-      rules.push({ host: this.props.smtp.mailpit!.host!,
-                   backend: IngressBackend.fromService(this.services["mailpit"]!, { port: 8025 })});
+      this.connect("ingress-controller", this.serviceName("mailpit"), 8025);
+      routes.push({ service: this.services["mailpit"]!, port: 8025,
+                    host: this.props.smtp.mailpit!.host! });
     }
 
-    return new Ingress(this, "ing", {
+    // nothing to expose (eg: nginx and keycloak are not deployed in the restore mode, nor in the
+    // init mode with an external keycloak server)
+    if (routes.length == 0) {
+      return;
+    }
+
+    switch (ingress.flavor ?? "nginx") {
+      case "gateway-api":
+        this.createHttpRoutes(routes);
+        break;
+      case "traefik":
+        this.createTraefikIngressRoutes(routes);
+        break;
+      default:
+        this.createNginxIngress(routes);
+    }
+  }
+
+  /** create the ingress-nginx Ingress objects */
+  private createNginxIngress(routes: IngressRoute[]): Ingress[]
+  {
+    let ingress = this.props.ingress;
+    const secret = this.ingressTlsSecret();
+    const hosts = (this.props.ingress.certIssuer != undefined) ? this.ingressTlsHosts()
+      : [this.url.host, this.viewerUrl.host];
+    const tls = (secret == undefined) ? undefined : [{ hosts: hosts, secret: secret }];
+
+    const rules = (upload: boolean) => routes.filter((r) => (r.upload ?? false) == upload)
+      .map((r) => ({ host: r.host, path: r.path,
+                     backend: IngressBackend.fromService(r.service, { port: r.port }) }));
+
+    const annotations = {
+      // FIXME: shanoir should never return a http: url
+      "nginx.ingress.kubernetes.io/proxy-redirect-from": `http://${this.url.host}`,
+      "nginx.ingress.kubernetes.io/proxy-redirect-to":  `https://${this.url.host}`,
+    };
+    const timeout = this.props.uploadTimeout!.toSeconds().toString();
+
+    let ingresses = [new Ingress(this, "ing", {
       className: ingress.className,
-      metadata: {
-        annotations: {
-          // FIXME: shanoir should never return a http: url
-          "nginx.ingress.kubernetes.io/proxy-redirect-from": `http://${this.url.host}`,
-          "nginx.ingress.kubernetes.io/proxy-redirect-to":  `https://${this.url.host}`,
-          // FIXME: this parameter should apply only to the endpoints which actually need it
-          //        (eg: /shanoir-ng/import/importer/upload_dicom/)
-          // FIXME: the nginx and datasets container have a similar parameter in their config
-          //        -> we should have a key in this.props to configure all three at once
-          "nginx.ingress.kubernetes.io/proxy-body-size": "5g",
+      metadata: { annotations: annotations },
+      tls: tls,
+      rules: rules(false),
+    })];
+
+    // the upload endpoints are routed by a separate ingress (because the annotations apply to all
+    // the rules of an ingress)
+    if (rules(true).length) {
+      ingresses.push(new Ingress(this, "upload-ing", {
+        className: ingress.className,
+        metadata: {
+          annotations: {
+            ...annotations,
+            "nginx.ingress.kubernetes.io/proxy-body-size":
+              `${this.props.maxUploadSize!.toMebibytes()}m`,
+            "nginx.ingress.kubernetes.io/proxy-read-timeout": timeout,
+            "nginx.ingress.kubernetes.io/proxy-send-timeout": timeout,
+          },
         },
+        tls: tls,
+        rules: rules(true),
+      }));
+    }
+    return ingresses;
+  }
+
+  /** create the Gateway API HTTPRoute objects (one for each hostname)
+   *
+   * Gateway API has no equivalent to the `proxy-redirect-*` and `proxy-body-size` annotations of
+   * ingress-nginx. Instead:
+   * - the `X-Forwarded-Proto: https` header is forced so that shanoir generates https urls
+   * - the size of the uploads is limited by the nginx container and the microservices only
+   */
+  private createHttpRoutes(routes: IngressRoute[]): ApiObject[]
+  {
+    const gateway = this.props.ingress.gateway!;
+    const timeout = `${this.props.uploadTimeout!.toSeconds()}s`;
+
+    return [...new Set(routes.map((r) => r.host))].map((host) => new ApiObject(this,
+      `${(host == this.url.host) ? "" : (host == this.viewerUrl.host) ? "viewer-" : "mailpit-"}`
+      + "httproute", {
+      apiVersion: "gateway.networking.k8s.io/v1",
+      kind: "HTTPRoute",
+      spec: {
+        parentRefs: [{
+          group: "gateway.networking.k8s.io",
+          kind: "Gateway",
+          name: gateway.name,
+          namespace: gateway.namespaceName,
+          sectionName: gateway.sectionName,
+        }],
+        hostnames: [host],
+        rules: routes.filter((r) => r.host == host).map((r) => ({
+          matches: [{ path: { type: "PathPrefix", value: r.path ?? "/" } }],
+          filters: [{
+            type: "RequestHeaderModifier",
+            requestHeaderModifier: { set: [{ name: "X-Forwarded-Proto", value: "https" }] },
+          }],
+          backendRefs: [{ name: r.service.name, port: r.port }],
+          timeouts: r.upload ? { request: timeout, backendRequest: timeout } : undefined,
+        })),
+      },
+    }));
+  }
+
+  /** create the Traefik IngressRoute object (and its middleware)
+   *
+   * Like with {@link createHttpRoutes}, the `X-Forwarded-Proto: https` header is forced and the
+   * size of the uploads is not limited by the ingress. The timeout of the upload endpoints is set
+   * through a dedicated ServersTransport.
+   */
+  private createTraefikIngressRoutes(routes: IngressRoute[]): ApiObject[]
+  {
+    const className = this.props.ingress.className;
+    const secret = this.ingressTlsSecret();
+    const metadata = (className == undefined) ? {}
+      : { annotations: { "kubernetes.io/ingress.class": className } };
+    const timeout = `${this.props.uploadTimeout!.toSeconds()}s`;
+
+    const middleware = new ApiObject(this, "forwarded-https-mw", {
+      apiVersion: "traefik.io/v1alpha1",
+      kind: "Middleware",
+      metadata: metadata,
+      spec: {
+        headers: { customRequestHeaders: { "X-Forwarded-Proto": "https" } },
+      },
+    });
+    const uploadTransport = new ApiObject(this, "upload-st", {
+      apiVersion: "traefik.io/v1alpha1",
+      kind: "ServersTransport",
+      metadata: metadata,
+      spec: {
+        forwardingTimeouts: { responseHeaderTimeout: timeout },
       },
-      tls: tls,
-      rules: rules,
     });
+
+    return [middleware, uploadTransport, new ApiObject(this, "ingressroute", {
+      apiVersion: "traefik.io/v1alpha1",
+      kind: "IngressRoute",
+      metadata: metadata,
+      spec: {
+        entryPoints: ["websecure"],
+        routes: routes.map((r) => ({
+          kind: "Rule",
+          match: `Host(\`${r.host}\`)`
+            + ((r.path == undefined) ? "" : ` && PathPrefix(\`${r.path}\`)`),
+          middlewares: [{ name: middleware.name }],
+          services: [{
+            name: r.service.name,
+            port: r.port,
+            serversTransport: r.upload ? uploadTransport.name : undefined,
+          }],
+        })),
+        // NOTE: an empty tls section enables TLS with the default certificate of traefik
+        tls: (secret == undefined) ? {} : { secretName: secret.name },
+      },
+    })];
   }
 }
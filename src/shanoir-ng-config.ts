@@ -0,0 +1,195 @@
+import { readFileSync } from "fs";
+import { basename, extname } from "path";
+import { Duration, Size, Yaml } from "cdk8s";
+import { Cpu } from "cdk8s-plus-33";
+
+import { ShanoirNGProps } from "./shanoir-ng-props";
+import { ShanoirValidationError, ShanoirValidationProblem } from "./shanoir-ng-validation";
+
+/** Content of a configuration file (see {@link ShanoirNGConfig.load}) */
+export interface ShanoirNGConfigFile {
+  /** id of the chart (`id` key of the file, or the basename of the file) */
+  readonly id: string;
+
+  /** props of the chart */
+  readonly props: ShanoirNGProps;
+}
+
+/** factor of each unit in a size string (in KiB) */
+const sizeUnits: {[key: string]: number} = {
+  Ki: 1,
+  Mi: 1024,
+  Gi: 1024 ** 2,
+  Ti: 1024 ** 3,
+  Pi: 1024 ** 4,
+};
+
+/** parsed YAML/JSON map */
+type ConfigMap = {[key: string]: unknown};
+
+/** check that a parsed value is a map (ie: a non-null object, but not an array) */
+function isMap(value: unknown): value is ConfigMap
+{
+  return typeof value == "object" && value != null && !Array.isArray(value);
+}
+
+/** factor of each unit in a duration string (in seconds) */
+const durationUnits: {[key: string]: number} = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+/** Loader for the declarative configuration of a shanoir instance
+ *
+ * The configuration is a YAML or JSON document holding the {@link ShanoirNGProps} (see the
+ * JSON Schema in `shanoir-ng-props.schema.json`), with an optional `id` key. The values that are
+ * objects in the typescript api are expressed as strings:
+ * - sizes (eg: `volumeClaims.*.storage`, `maxUploadSize`): `"64Gi"`, `"512Mi"`, ...
+ * - durations (eg: `uploadTimeout`, `upgrade.timeout`): `"600s"`, `"10m"`, ... (or an ISO 8601
+ *   duration)
+ * - cpu amounts (eg: `resources.*.cpu.request`): `"250m"` or a number of cores
+ */
+export class ShanoirNGConfig
+{
+  /** load a configuration file (in YAML or JSON format, depending on its extension) */
+  static load(path: string): ShanoirNGConfigFile
+  {
+    const ext = extname(path);
+    const config: unknown = (ext == ".json") ? JSON.parse(readFileSync(path, "utf-8"))
+      : Yaml.load(path)[0];
+    const id = isMap(config) ? config.id : undefined;
+    return {
+      id: (id == undefined) ? basename(path, ext) : String(id),
+      props: ShanoirNGConfig.toProps(config ?? {}),
+    };
+  }
+
+  /** convert a parsed configuration document into {@link ShanoirNGProps}
+   *
+   * The `id` and `$schema` keys of the document are ignored.
+   *
+   * Note: only the values to be converted are checked here, the resulting props are validated
+   * when creating the chart (see {@link ShanoirNGValidator}).
+   *
+   * @throws ShanoirValidationError if a value cannot be converted
+   */
+  static toProps(config: unknown): ShanoirNGProps
+  {
+    const c = new ShanoirNGConfig();
+    const props = c.convert(config);
+    if (c.problems.length) {
+      throw new ShanoirValidationError(c.problems);
+    }
+    return props;
+  }
+
+  private readonly problems: ShanoirValidationProblem[] = [];
+
+  private constructor() {}
+
+  private convert(document: unknown): ShanoirNGProps
+  {
+    const { id, $schema, ...config } = this.map("(document)", document);
+
+    const mapValues = (path: string, map: unknown,
+                       fn: (key: string, value: ConfigMap) => ConfigMap) =>
+      (map == undefined) ? undefined
+        : Object.fromEntries(Object.entries(this.map(path, map)).map(([key, value]) =>
+          [key, fn(key, this.map(`${path}.${key}`, value))]));
+
+    const requestLimit = <T>(path: string, value: unknown,
+                             fn: (path: string, v: unknown) => T | undefined) => {
+      if (value == undefined) {
+        return undefined;
+      }
+      const map = this.map(path, value);
+      return {
+        ...map,
+        request: fn(`${path}.request`, map.request),
+        limit: fn(`${path}.limit`, map.limit),
+      };
+    };
+
+    const upgrade = (config.upgrade == undefined) ? undefined : this.map("upgrade", config.upgrade);
+    const upgradeTimeout = this.duration("upgrade.timeout", upgrade?.timeout);
+
+    const props: ConfigMap = {
+      ...config,
+      maxUploadSize: this.size("maxUploadSize", config.maxUploadSize),
+      uploadTimeout: this.duration("uploadTimeout", config.uploadTimeout),
+      // (the timeout is left unset if missing, so that it does not override the default)
+      upgrade: (upgrade == undefined) ? undefined
+        : { ...upgrade, ...((upgradeTimeout == undefined) ? {} : { timeout: upgradeTimeout }) },
+      volumeClaims: mapValues("volumeClaims", config.volumeClaims, (name, claim) => ({
+        ...claim,
+        storage: this.size(`volumeClaims.${name}.storage`, claim.storage),
+      })),
+      resources: mapValues("resources", config.resources, (name, res) => ({
+        ...res,
+        cpu: requestLimit(`resources.${name}.cpu`, res.cpu, (p, v) => this.cpu(p, v)),
+        memory: requestLimit(`resources.${name}.memory`, res.memory, (p, v) => this.size(p, v)),
+        ephemeralStorage: requestLimit(`resources.${name}.ephemeralStorage`,
+                                       res.ephemeralStorage, (p, v) => this.size(p, v)),
+      })),
+    };
+    // drop the unset keys (so that they do not override the defaults)
+    const defined = Object.entries(props).filter(([_, value]) => value != undefined);
+    return Object.fromEntries(defined) as unknown as ShanoirNGProps;
+  }
+
+  /** ensure that a value is a map (an empty map is returned otherwise) */
+  private map(path: string, value: unknown): ConfigMap
+  {
+    if (isMap(value)) {
+      return value;
+    }
+    this.problems.push({ path, message: `expected a map: ${JSON.stringify(value)}` });
+    return {};
+  }
+
+  /** parse a size (eg: "64Gi") */
+  private size(path: string, value: unknown): Size | undefined
+  {
+    if (value == undefined) {
+      return undefined;
+    }
+    const m = /^\s*([0-9.]+)\s*(Ki|Mi|Gi|Ti|Pi)\s*$/.exec(String(value));
+    if (m == null || isNaN(Number(m[1]))) {
+      this.problems.push({ path, message: `invalid size (expected eg: "64Gi"): ${value}` });
+      return undefined;
+    }
+    return Size.kibibytes(Number(m[1]) * sizeUnits[m[2]!]!);
+  }
+
+  /** parse a duration (eg: "10m", or "PT10M") */
+  private duration(path: string, value: unknown): Duration | undefined
+  {
+    if (value == undefined) {
+      return undefined;
+    }
+    const m = /^\s*([0-9.]+)\s*(s|m|h|d)\s*$/.exec(String(value));
+    try {
+      return (m != null) ? Duration.seconds(Number(m[1]) * durationUnits[m[2]!]!)
+        : Duration.parse(String(value));
+    } catch (e) {
+      this.problems.push({ path, message: `invalid duration (expected eg: "10m"): ${value}` });
+      return undefined;
+    }
+  }
+
+  /** parse a cpu amount (eg: "250m" or 0.25) */
+  private cpu(path: string, value: unknown): Cpu | undefined
+  {
+    if (value == undefined) {
+      return undefined;
+    }
+    const m = /^\s*([0-9.]+)\s*(m?)\s*$/.exec(String(value));
+    if (m == null || isNaN(Number(m[1]))) {
+      this.problems.push({ path, message: `invalid cpu amount (expected eg: "250m"): ${value}` });
+      return undefined;
+    }
+    return (m[2] == "m") ? Cpu.millis(Number(m[1])) : Cpu.units(Number(m[1]));
+  }
+}
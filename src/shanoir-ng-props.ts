@@ -1,11 +1,38 @@
 
-import { ChartProps } from "cdk8s";
-import { PersistentVolumeClaimProps } from "cdk8s-plus-33";
+import { ChartProps, Duration, Size } from "cdk8s";
+import {
+  ContainerResources, Cpu, FsGroupChangePolicy, PersistentVolumeClaimProps, k8s,
+} from "cdk8s-plus-33";
 
 
+/** Reference to a key in a pre-existing kubernetes secret
+ *
+ * The secret must be located in the namespace of the shanoir instance.
+ */
+export interface ShanoirSecretKeyRef {
+  /** name of the secret */
+  readonly secretName: string;
+
+  /** key of the value in the secret */
+  readonly key: string;
+}
+
+/** Account credentials
+ *
+ * The password must be provided either as a literal value (stored in the secret generated by the
+ * chart) or as a reference to a pre-existing secret.
+ */
 export interface ShanoirCredentials {
   readonly username: string;
-  readonly password: string;
+
+  /** password (literal value) */
+  readonly password?: string;
+
+  /** password (reference to a pre-existing secret)
+   *
+   * If set, it takes precedence over {@link password}.
+   */
+  readonly passwordRef?: ShanoirSecretKeyRef;
 }
 
 /** Parameters for accessing a Mysql/Mariadb/Posgresql database */
@@ -84,7 +111,19 @@ export const shanoirVipDefaults = {
 /** VIP (Virtual Imaging Platform) client configuration */
 export interface ShanoirVipProps {
   readonly url: string;
-  readonly clientSecret: string;
+
+  /** client secret (literal value)
+   *
+   * @default see {@link shanoirVipDefaults}
+   */
+  readonly clientSecret?: string;
+
+  /** client secret (reference to a pre-existing secret)
+   *
+   * If set, it takes precedence over {@link clientSecret}.
+   */
+  readonly clientSecretRef?: ShanoirSecretKeyRef;
+
   readonly serviceEmail: string;
 }
 
@@ -111,6 +150,9 @@ export const shanoirVolumes = [
   "solr-data",
   "tmp",
 
+  // database dumps (see ShanoirNGProps.backup)
+  "backup",
+
   // these volume store configuration data that is autogenerated from the environment variables
   // if not provided, they will be mounted from an ephemeral volume
   "dcm4chee-arc-wildfly-data",
@@ -118,6 +160,118 @@ export const shanoirVolumes = [
   "dcm4chee-sldap-data",
 ];
 
+/** List of the volumes holding data that cannot be regenerated (medical data and databases)
+ *
+ * Their volume claims must not be renamed once deployed (see {@link
+ * ShanoirNGProps.allowVolumeClaimRenames}).
+ */
+export const shanoirDataVolumes = [
+  "datasets-data",
+  "dcm4chee-arc-storage-data",
+  "extra-data",
+  "studies-data",
+  "database-data",
+  "dcm4chee-database-data",
+  "keycloak-database-data",
+];
+
+/** List of the volumes mounted by several deployments (the microservices and nifti-conversion)
+ *
+ * Unless their claims are `ReadWriteMany`, these deployments are forced to run on the same node
+ * (and they cannot be replicated).
+ */
+export const shanoirSharedVolumes = [
+  "tmp",
+  "datasets-data",
+];
+
+/** Volume claim of a shanoir volume (see {@link ShanoirNGProps.volumeClaims})
+ *
+ * By default a new volume claim is created by the chart, with a name derived from the chart id
+ * (eg: `shanoir-example-datasets-data-pvc-c8f3a2b1`).
+ */
+export interface ShanoirVolumeClaimProps extends PersistentVolumeClaimProps {
+  /** Name of a pre-existing volume claim to be used instead of creating a new one
+   *
+   * If set, the other props (storage, storage class, ...) are ignored, except `accessModes`
+   * which should describe the pre-existing claim (see {@link shanoirSharedVolumes}).
+   */
+  readonly existingClaimName?: string;
+
+  /** Name of the volume claim created by the chart
+   *
+   * Setting a stable name ensures that the claim is not replaced if the chart is renamed.
+   *
+   * @default generated from the chart id
+   */
+  readonly claimName?: string;
+
+  /** Give the ownership of the volume to the uid of the pods mounting it
+   *
+   * The `fsGroup` of the pods has no effect on some storage backends (eg: NFS, CephFS, hostPath),
+   * thus the volumes created by the provisioner are owned by root and not writable. If set, an
+   * init container (running as root) is added to each pod mounting the volume, it gives the
+   * files owned by root to the uid of the pod (see {@link ShanoirNGProps.uids}, or the hardcoded
+   * uids of the dcm4chee images).
+   *
+   * Note: the backend must allow root to change the ownership (eg: `no_root_squash` with NFS).
+   *
+   * @default false
+   */
+  readonly fixPermissions?: boolean;
+}
+
+/** List of the shanoir images (provided by {@link ShanoirNGProps.dockerRepository}) */
+export const shanoirImages = [
+  "database",
+  "database-migrations",
+  "keycloak",
+  "keycloak-database",
+  "nginx",
+  "solr",
+  "users",
+  "studies",
+  "import",
+  "datasets",
+  "preclinical",
+  "nifti-conversion",
+];
+
+/** Third-party images (see {@link ShanoirNGProps.images}) */
+export const defaultImages: {[key: string]: string} = {
+  "busybox":            "busybox:1.37",
+  "dcm4chee-arc":       "dcm4che/dcm4chee-arc-psql:5.27.0",
+  "dcm4chee-database":  "dcm4che/postgres-dcm4chee:14.4-27",
+  "dcm4chee-ldap":      "dcm4che/slapd-dcm4chee:2.6.2-27.0",
+  "fluent-bit":         "fluent/fluent-bit:4.0.3",
+  "mailpit":            "axllent/mailpit",
+  "mysqld-exporter":    "prom/mysqld-exporter:v0.17.2",
+  "postgres-exporter":  "quay.io/prometheuscommunity/postgres-exporter:v0.17.1",
+  "rabbitmq":           "rabbitmq:3.10.7",
+};
+
+/** Override of a container image (see {@link ShanoirNGProps.images}) */
+export interface ShanoirImageProps {
+  /** Repository of the image (eg: `harbor.example.org/dockerhub/library/rabbitmq`)
+   *
+   * @default the default repository (rewritten with {@link ShanoirNGProps.imageRegistry})
+   */
+  readonly repository?: string;
+
+  /** Tag of the image
+   *
+   * @default the default tag
+   */
+  readonly tag?: string;
+
+  /** Digest of the image (eg: `sha256:4f5e...`)
+   *
+   * If set, the image is pulled by digest (the tag is kept in the image name but it is ignored
+   * by the container runtime).
+   */
+  readonly digest?: string;
+}
+
 
 /** List of mysql databases to be provide in {@link ShanoirNGProps.mysqlDatabases} */
 export const shanoirMysqlDatabases = [
@@ -164,9 +318,22 @@ export const defaultUids = {
   "rabbitmq": 511,
   "ms":  512,
   "nifti-conversion": 512,
+  // microservices deployed separately (see ShanoirNGProps.splitMicroservices)
+  // (they must share the same uid as the "ms" deployment)
+  "users": 512,
+  "studies": 512,
+  "import": 512,
+  "datasets": 512,
+  "preclinical": 512,
   "keycloak-database": 513,
   "solr": 514,
   "mailpit": 600,
+  "backup": 515,
+  // (must be the same as "backup" for reading the dumps)
+  "restore": 515,
+  // upgrade job (see ShanoirNGProps.upgrade)
+  // (must be the same as "ms" because it runs the microservices)
+  "upgrade": 512,
   "keycloak": 1000,
   // Note: the dcm4chee images do not support running as an arbitary user, they must be run as
   // root and switch to an hardcoded uid at startup:
@@ -175,6 +342,415 @@ export const defaultUids = {
   // - dcm4chee-arc: 1023
 }
 
+/** build a ContainerResources object (cpu request + memory request/limit)
+ *
+ * No cpu limit is set, to avoid throttling the JVM-based services at startup.
+ */
+function containerResources(cpuMillis: number, memoryRequestMb: number,
+                            memoryLimitMb: number): ContainerResources
+{
+  return {
+    cpu: { request: Cpu.millis(cpuMillis) },
+    memory: {
+      request: Size.mebibytes(memoryRequestMb),
+      limit: Size.mebibytes(memoryLimitMb),
+    },
+  };
+}
+
+export const defaultResources: {[key: string]: ContainerResources} = {
+  // deployments
+  "database": containerResources(250, 512, 1024),
+  "keycloak-database": containerResources(100, 256, 512),
+  "rabbitmq": containerResources(100, 256, 512),
+  "solr": containerResources(100, 512, 1024),
+  "keycloak": containerResources(250, 768, 1536),
+  "mailpit": containerResources(10, 32, 128),
+  "dcm4chee-database": containerResources(100, 256, 1024),
+  "dcm4chee": containerResources(250, 1024, 2048),
+  "dcm4chee-ldap": containerResources(50, 64, 256),
+  "dcm4chee-remote-aes": containerResources(10, 16, 64),
+  "nginx": containerResources(50, 64, 256),
+  "nifti-conversion": containerResources(100, 512, 2048),
+  "wait-for-dependencies": containerResources(10, 16, 64),
+  "metrics-exporter": containerResources(10, 32, 128),
+  "log-shipper": containerResources(10, 32, 128),
+  "log-tail": containerResources(10, 16, 64),
+  "fix-permissions": containerResources(10, 16, 64),
+  "backup": containerResources(50, 128, 512),
+  "restore": containerResources(100, 256, 1024),
+
+  // containers of the 'ms' deployment/job
+  "database-migrations": containerResources(50, 128, 256),
+  "users": containerResources(100, 512, 1024),
+  "studies": containerResources(100, 512, 1024),
+  "import": containerResources(100, 512, 2048),
+  "datasets": containerResources(200, 1024, 3072),
+  "preclinical": containerResources(100, 512, 1024),
+}
+
+
+/** Scheduling constraints of the pods of a component (see {@link ShanoirNGProps.scheduling}) */
+export interface ShanoirSchedulingProps {
+  /** Labels of the nodes on which the pods may be scheduled */
+  readonly nodeSelector?: {[key: string]: string};
+
+  /** Node affinity and pod (anti-)affinity rules
+   *
+   * Note: for the pods mounting a `ReadWriteOnce` shared volume (see {@link
+   * shanoirSharedVolumes}), this replaces the rule co-locating them on the same node.
+   */
+  readonly affinity?: k8s.Affinity;
+
+  /** Tolerated node taints (eg: for running on dedicated or spot nodes) */
+  readonly tolerations?: k8s.Toleration[];
+
+  /** Constraints for spreading the pods across the topology domains (nodes, zones, ...) */
+  readonly topologySpreadConstraints?: k8s.TopologySpreadConstraint[];
+
+  /** Name of the PriorityClass of the pods */
+  readonly priorityClassName?: string;
+}
+
+/** Default values for {@link ShanoirDisruptionBudgetProps} */
+export const shanoirDisruptionBudgetDefaults = {
+  // stateful components
+  components: ["database", "keycloak-database", "dcm4chee-database", "dcm4chee", "rabbitmq",
+               "solr"],
+  maxUnavailable: 1,
+};
+
+/** Configuration of the pod disruption budget (see {@link ShanoirNGProps.disruptionBudget}) */
+export interface ShanoirDisruptionBudgetProps {
+  /** Components covered by the budget (names of the deployments, as in {@link
+   * ShanoirNGProps.scheduling})
+   *
+   * @default see {@link shanoirDisruptionBudgetDefaults}
+   */
+  readonly components?: string[];
+
+  /** Maximum number of pods of these components that may be evicted at the same time
+   *
+   * @default see {@link shanoirDisruptionBudgetDefaults}
+   */
+  readonly maxUnavailable?: number;
+}
+
+/** Default values for {@link ShanoirLoggingProps} */
+export const shanoirLoggingDefaults = {
+  mode: "stdout" as "stdout",
+};
+
+/** Output of the Fluent Bit log shippers (see {@link ShanoirLoggingProps.fluentBit}) */
+export interface ShanoirFluentBitOutputProps {
+  /** Name of the Fluent Bit output plugin (eg: `loki`, `forward`, `http`) */
+  readonly plugin: string;
+
+  /** Hostname of the log collector */
+  readonly host: string;
+
+  /** TCP port of the log collector
+   *
+   * @default the default port of the output plugin
+   */
+  readonly port?: number;
+
+  /** Additional options of the output plugin (eg: `{ labels: "job=shanoir" }`) */
+  readonly options?: {[key: string]: string};
+}
+
+/** Configuration of the logging (see {@link ShanoirNGProps.logging}) */
+export interface ShanoirLoggingProps {
+  /** Destination of the log files written by the containers
+   *
+   * - `stdout`: nginx and rabbitmq log to their standard output, the log files of the other
+   *   components are written in ephemeral volumes and copied to the standard output of a
+   *   `log-tail` sidecar (in each pod), where they can be collected by the logging stack
+   * - `fluent-bit`: the log files are written in ephemeral volumes and forwarded by a Fluent Bit
+   *   sidecar (see {@link fluentBit})
+   *
+   * @default see {@link shanoirLoggingDefaults}
+   */
+  readonly mode?: "stdout" | "fluent-bit";
+
+  /** Output of the Fluent Bit sidecars (required in the `fluent-bit` mode) */
+  readonly fluentBit?: ShanoirFluentBitOutputProps;
+}
+
+/** Default values for {@link ShanoirMonitoringProps} */
+export const shanoirMonitoringDefaults = {
+  namespaceName: "monitoring",
+  scrapeInterval: "30s",
+  diskUsageThreshold: 85,
+  queueBacklogThreshold: 1000,
+};
+
+/** Configuration of the prometheus monitoring
+ *
+ * This requires the prometheus operator (for the `PodMonitor` and `PrometheusRule` resources).
+ * The alerts on the pod restarts and on the disk usage of the volumes rely on the metrics of
+ * kube-state-metrics and of the kubelet.
+ */
+export interface ShanoirMonitoringProps {
+  /** Namespace of prometheus
+   *
+   * Used in the network policies (see {@link ShanoirNGProps.networkPolicies}) to allow the
+   * scraping of the metrics endpoints.
+   *
+   * @default see {@link shanoirMonitoringDefaults}
+   */
+  readonly namespaceName?: string;
+
+  /** Labels of the PodMonitor and PrometheusRule objects (eg: for matching the
+   * `podMonitorSelector` and `ruleSelector` of the prometheus instance)
+   */
+  readonly labels?: {[key: string]: string};
+
+  /** Interval between two scrapes
+   *
+   * @default see {@link shanoirMonitoringDefaults}
+   */
+  readonly scrapeInterval?: string;
+
+  /** Usage of a volume (in percents) above which an alert is raised
+   *
+   * @default see {@link shanoirMonitoringDefaults}
+   */
+  readonly diskUsageThreshold?: number;
+
+  /** Number of pending rabbitmq messages above which an alert is raised
+   *
+   * @default see {@link shanoirMonitoringDefaults}
+   */
+  readonly queueBacklogThreshold?: number;
+}
+
+/** Default values for {@link ShanoirDicomProps} */
+export const shanoirDicomDefaults = {
+  serviceType: "LoadBalancer" as "LoadBalancer",
+  aeTitle: "DCM4CHEE",
+};
+
+/** Remote DICOM node (eg: a MRI console) */
+export interface ShanoirDicomRemoteAe {
+  /** AE title of the remote node */
+  readonly aeTitle: string;
+
+  /** hostname (or ip address) of the remote node */
+  readonly hostname: string;
+
+  /** DICOM port of the remote node */
+  readonly port: number;
+}
+
+/** Exposure of the DICOM port of the dcm4chee archive to external modalities
+ *
+ * Note: the AE title and hostname of the archive are stored in the ldap database when it is
+ * initialised, changing them afterwards has no effect on an existing instance.
+ */
+export interface ShanoirDicomProps {
+  /** Type of the kubernetes service exposing the DICOM port (11112)
+   *
+   * @default see {@link shanoirDicomDefaults}
+   */
+  readonly serviceType?: "LoadBalancer" | "NodePort";
+
+  /** Node port (only with the `NodePort` service type)
+   *
+   * @default allocated by kubernetes
+   */
+  readonly nodePort?: number;
+
+  /** Source ip ranges allowed to connect to the DICOM port (in CIDR notation)
+   *
+   * This is enforced by the load balancer (`loadBalancerSourceRanges`) and by the network
+   * policies (see {@link ShanoirNGProps.networkPolicies}).
+   *
+   * @default no restriction
+   */
+  readonly allowedSourceRanges?: string[];
+
+  /** AE title of the archive
+   *
+   * @default see {@link shanoirDicomDefaults}
+   */
+  readonly aeTitle?: string;
+
+  /** Hostname of the archive, as seen by the remote nodes
+   *
+   * @default the name of the dcm4chee service
+   */
+  readonly hostname?: string;
+
+  /** Remote nodes to be registered in the ldap configuration of the archive
+   *
+   * They are (re-)registered at each startup of dcm4chee (the nodes that already exist are left
+   * unchanged).
+   */
+  readonly remoteAes?: ShanoirDicomRemoteAe[];
+}
+
+/** Default values for {@link ShanoirBackupProps} */
+export const shanoirBackupDefaults = {
+  schedule: "0 3 * * *",
+  retention: 7,
+};
+
+/** Configuration of the scheduled database backups
+ *
+ * Each database listed in {@link ShanoirNGProps.mysqlDatabases} and {@link
+ * ShanoirNGProps.postgresqlDatabases} is dumped by a dedicated CronJob (using `mysqldump` or
+ * `pg_dump`) into the `backup` volume (see {@link ShanoirNGProps.volumeClaims}). The dumps are
+ * compressed with gzip and stored as `mysql/<name>/<name>-<timestamp>.sql.gz` and
+ * `postgresql/<name>/<name>-<timestamp>.sql.gz`.
+ *
+ * Note: the keycloak database is not included when using an external keycloak server.
+ */
+export interface ShanoirBackupProps {
+  /** Schedule of the backups (in cron format)
+   *
+   * @default see {@link shanoirBackupDefaults}
+   */
+  readonly schedule?: string;
+
+  /** Time zone of the schedule
+   *
+   * @default the time zone of the kube-controller-manager
+   */
+  readonly timeZone?: string;
+
+  /** Number of dumps to keep for each database (the older ones are deleted)
+   *
+   * @default see {@link shanoirBackupDefaults}
+   */
+  readonly retention?: number;
+}
+
+/** Configuration of the restore mode
+ *
+ * See {@link ShanoirNGProps.restore}
+ */
+export interface ShanoirRestoreProps {
+  /** Name of a pre-existing volume claim containing the database dumps
+   *
+   * The dumps must be stored with the layout produced by the backup cron jobs (see {@link
+   * ShanoirBackupProps}).
+   */
+  readonly backupClaimName: string;
+
+  /** Timestamp of the dumps to be restored (`YYYYmmdd-HHMMSS`)
+   *
+   * @default the most recent dump of each database
+   */
+  readonly timestamp?: string;
+
+  /** Pre-existing volume claims to be copied into the volumes of this instance
+   *
+   * The hashmap keys are the keys of {@link ShanoirNGProps.volumeClaims} (eg: `datasets-data`,
+   * `dcm4chee-arc-storage-data`), the values are the names of the source volume claims.
+   */
+  readonly volumeClaimNames?: {[key: string]: string};
+
+  /** Main url of the source instance
+   *
+   * If set, its hostname is replaced with the hostname of {@link ShanoirNGProps.url} in the
+   * restored dumps.
+   */
+  readonly sourceUrl?: string;
+
+  /** Url of the OHIF viewer of the source instance
+   *
+   * If set, its hostname is replaced with the hostname of {@link ShanoirNGProps.viewerUrl} in the
+   * restored dumps.
+   */
+  readonly sourceViewerUrl?: string;
+}
+
+/** Default values for {@link ShanoirUpgradeProps} */
+export const shanoirUpgradeDefaults = {
+  timeout: Duration.hours(2),
+};
+
+/** Configuration of the upgrade mode
+ *
+ * See {@link ShanoirNGProps.upgrade}
+ */
+export interface ShanoirUpgradeProps {
+  /** Version of the running instance (before the upgrade)
+   *
+   * The synth fails if {@link ShanoirNGProps.version} is older than this version.
+   *
+   * @default the version recorded in the manifest generated by the previous synth (see {@link
+   *          ShanoirNGProps.previousManifestsDir})
+   */
+  readonly fromVersion?: string;
+
+  /** Do not dump the databases before running the migrations
+   *
+   * By default the upgrade job starts with a backup of each database into the `backup` volume
+   * (with the same layout as the backup cron jobs), if {@link ShanoirNGProps.backup} is set.
+   *
+   * @default false
+   */
+  readonly skipBackup?: boolean;
+
+  /** Maximum duration of the upgrade job
+   *
+   * The job (including the backups) is aborted and marked as failed if the migrations are not
+   * complete within this duration (`activeDeadlineSeconds`).
+   *
+   * @default see {@link shanoirUpgradeDefaults}
+   */
+  readonly timeout?: Duration;
+}
+
+/** Default values for {@link ShanoirProbeProps} */
+export const shanoirProbeDefaults = {
+  startupTimeout: 300,
+  period: 10,
+  timeout: 5,
+  failureThreshold: 3,
+};
+
+/** Timings of the startup, readiness and liveness probes of a container */
+export interface ShanoirProbeProps {
+  /** Maximum duration (in seconds) allowed for the container to become ready after its start
+   *
+   * The readiness and liveness probes are not run before the startup probe has succeeded.
+   *
+   * @default see {@link shanoirProbeDefaults}
+   */
+  readonly startupTimeout?: number;
+
+  /** Interval (in seconds) between two consecutive probes
+   *
+   * @default see {@link shanoirProbeDefaults}
+   */
+  readonly period?: number;
+
+  /** Timeout (in seconds) of a probe
+   *
+   * @default see {@link shanoirProbeDefaults}
+   */
+  readonly timeout?: number;
+
+  /** Number of consecutive failures after which a running container is considered unready (by
+   * the readiness probe) and restarted (by the liveness probe)
+   *
+   * @default see {@link shanoirProbeDefaults}
+   */
+  readonly failureThreshold?: number;
+}
+
+/** Default probe timings (overriding {@link shanoirProbeDefaults} for the slowest containers) */
+export const defaultProbes: {[key: string]: ShanoirProbeProps} = {
+  // keycloak and dcm4chee may need several minutes on the first start (keycloak rebuilds itself,
+  // dcm4chee initialises its database and ldap config)
+  "keycloak": { startupTimeout: 900 },
+  "dcm4chee": { startupTimeout: 1200 },
+  // rabbitmq-diagnostics starts a erlang vm on each run
+  "rabbitmq": { timeout: 20, period: 30 },
+}
 
 /** Default values for {@link ShanoirNGProps} */
 export const shanoirNGDefaults = {
@@ -189,11 +765,68 @@ export const shanoirNGDefaults = {
   mysqlDatabases: defaultMysqlDatabases(),
   postgresqlDatabases: defaultPostgresqlDatabases(),
   uids: defaultUids,
+  resources: defaultResources,
+  splitMicroservices: false,
+  networkPolicies: false,
+  generatePasswords: false,
+  jvmHeapPercentage: 75,
+  maxUploadSize: Size.gibibytes(5),
+  uploadTimeout: Duration.minutes(10),
   init: false,
 };
 
+/** Reference to a Gateway API gateway (see {@link ShanoirIngressProps.gateway}) */
+export interface ShanoirGatewayRef {
+  /** name of the gateway */
+  readonly name: string;
+
+  /** namespace of the gateway
+   *
+   * @default the namespace of the shanoir instance
+   */
+  readonly namespaceName?: string;
+
+  /** name of the listener of the gateway
+   *
+   * @default all listeners
+   */
+  readonly sectionName?: string;
+}
+
+/** Reference to a cert-manager issuer (see {@link ShanoirIngressProps.certIssuer}) */
+export interface ShanoirCertIssuerRef {
+  /** name of the issuer */
+  readonly name: string;
+
+  /** kind of the issuer (an `Issuer` must be located in the namespace of the shanoir instance)
+   *
+   * @default "ClusterIssuer"
+   */
+  readonly kind?: "Issuer" | "ClusterIssuer";
+}
+
 export interface ShanoirIngressProps {
-  /** Ingress class */
+  /** Kind of ingress objects to be generated
+   *
+   * - `nginx`: a `networking.k8s.io` Ingress using the annotations of the ingress-nginx
+   *   controller
+   * - `gateway-api`: Gateway API `HTTPRoute` objects attached to {@link gateway}
+   * - `traefik`: Traefik `IngressRoute` objects (and their `Middleware`)
+   *
+   * @default "nginx"
+   */
+  readonly flavor?: "nginx" | "gateway-api" | "traefik";
+
+  /** Gateway the HTTPRoutes are attached to (required if {@link flavor} is `gateway-api`)
+   *
+   * The TLS certificates are configured on the listeners of the gateway, thus {@link tlsCrt},
+   * {@link tlsKey}, {@link tlsSecretName} and {@link certIssuer} are ignored with this flavor.
+   */
+  readonly gateway?: ShanoirGatewayRef;
+
+  /** Ingress class (with the `traefik` flavor, this sets the `kubernetes.io/ingress.class`
+   * annotation)
+   */
   readonly className?: string
 
   /** TLS certificate (PEM format)
@@ -211,12 +844,42 @@ export interface ShanoirIngressProps {
   * */
   readonly tlsKey?: string;
 
+  /** Name of a pre-existing TLS secret (of type `kubernetes.io/tls`)
+   *
+   * This is an alternative to {@link tlsCrt} and {@link tlsKey} for providing the TLS certificate
+   * without embedding the key in the manifests. If set, it takes precedence over them.
+   */
+  readonly tlsSecretName?: string;
+
+  /** cert-manager issuer for generating the TLS certificate
+   *
+   * If set, this deployment will include a cert-manager `Certificate` covering the domains of
+   * {@link ShanoirNGProps.url}, {@link ShanoirNGProps.viewerUrl} and of the mailpit web interface
+   * (if exposed). The certificate is renewed automatically by cert-manager. This takes precedence
+   * over {@link tlsSecretName}, {@link tlsCrt} and {@link tlsKey}.
+   *
+   * This has no effect with the `gateway-api` flavor (see {@link flavor}).
+   */
+  readonly certIssuer?: ShanoirCertIssuerRef;
+
   /** Expose the keycloak admin console and the master realm in the ingress rules
    *
    * By default the ingress rule only exposes the routes to the shanoir-ng realm (for security
    * reasons).
+   *
+   * This flag has no effect when using an external keycloak server (see {@link
+   * ShanoirNGProps.keycloakUrl}).
    */
   readonly exposeKeycloakAdminConsole?: boolean; 
+
+  /** Namespace of the ingress controller (or of the gateway proxies)
+   *
+   * Used in the network policies (see {@link ShanoirNGProps.networkPolicies}) to allow the
+   * traffic from the ingress controller to the services exposed in the ingress rules.
+   *
+   * @default "ingress-nginx"
+   */
+  readonly controllerNamespace?: string;
 };
 
 /** Configuration of a shanoir instance */
@@ -252,15 +915,54 @@ export interface ShanoirNGProps extends ChartProps {
    */
   readonly dockerRepository?: string;
 
+  /** Overrides of the container images
+   *
+   * The hashmap keys are the names of the shanoir images (see {@link shanoirImages}, eg: `users`,
+   * `keycloak`) and of the third-party images (see {@link defaultImages}, eg: `rabbitmq`,
+   * `dcm4chee-arc`).
+   */
+  readonly images?: {[key: string]: ShanoirImageProps};
+
+  /** Registry prefix replacing the registry of all the default images (eg: a pull-through mirror)
+   *
+   * eg: with `harbor.example.org/mirror`:
+   * - `ghcr.io/fli-iam/shanoir-ng/users` becomes
+   *   `harbor.example.org/mirror/fli-iam/shanoir-ng/users`
+   * - `rabbitmq` becomes `harbor.example.org/mirror/library/rabbitmq`
+   *
+   * The repositories provided explicitly in {@link images} are not rewritten.
+   */
+  readonly imageRegistry?: string;
+
+  /** Names of pre-existing secrets for pulling the images
+   *
+   * They are added to all the pods created by this deployment (including the initialisation,
+   * restore and upgrade jobs).
+   */
+  readonly imagePullSecrets?: string[];
+
   /** Mysql databases parameters
    *
    * If unset, this deployment will include a mysql container for hosting the databases.
    *
    * Otherwise the object must contain all keys listed in {@link shanoirMysqlDatabases}
    * (except 'keycloak' which may be omitted when using an external keycloak server)
+   *
+   * Note: the `migrations` entry must keep its default name, username and literal password,
+   * because they are hardcoded in the database-migrations image
+   * (https://github.com/fli-iam/shanoir-ng/issues/3430). This password is not sensitive: this
+   * account is only reachable from inside the instance.
    */
   readonly mysqlDatabases?: {[key: string]: ShanoirDatabaseProps};
 
+  /** Password of the root account of the internal mysql databases (reference to a pre-existing
+   * secret)
+   *
+   * Only used when {@link mysqlDatabases} is unset. If this is unset too, the password is
+   * generated (see {@link generatePasswords}), or else is the literal "password".
+   */
+  readonly mysqlRootPasswordRef?: ShanoirSecretKeyRef;
+
   /** Postgresql databases 
    *
    * If unset, this deployment will include a postgresql container for hosting the databases.
@@ -281,6 +983,13 @@ export interface ShanoirNGProps extends ChartProps {
   /** Url of the keycloak server (if external)
   *
   * If undefined, this deployment will include a keycloak container reachable at `${this.url}/auth/`
+  *
+  * Otherwise the keycloak and keycloak-database deployments are not created and the ingress does
+  * not include any route to keycloak. In the initialisation mode (see {@link init}), a job
+  * creates the shanoir-ng realm on the external server using the admin account provided in
+  * {@link keycloakCredentials}.
+  *
+  * @example "https://keycloak.example.org/auth"
   */
   readonly keycloakUrl?: string;
 
@@ -314,8 +1023,15 @@ export interface ShanoirNGProps extends ChartProps {
   * - `database-data` is not used when {@link mysqlDatabases} is set
   * - `keycloak-database-data` is not used when {@link mysqlDatabases} or {@link keycloakUrl} is set
   * - `dcm4chee-database-data` is not used when {@link postgresqlDatabases} is set
+  * - `backup` is used only when {@link backup} is set
+  *
+  * The {@link shanoirSharedVolumes} should be `ReadWriteMany`, otherwise the pods mounting them
+  * are forced to run on the same node.
+  *
+  * Each volume claim is either created by the chart or a pre-existing claim (see {@link
+  * ShanoirVolumeClaimProps.existingClaimName}).
   */
-  readonly volumeClaims: { [key: string]: PersistentVolumeClaimProps};
+  readonly volumeClaims: { [key: string]: ShanoirVolumeClaimProps};
 
   /** Ingress configuration */
   readonly ingress: ShanoirIngressProps;
@@ -334,10 +1050,279 @@ export interface ShanoirNGProps extends ChartProps {
    * created by {@link ShanoirNGChart.createDeployment()} and {@link ShanoirNGChart.createJob}.
    * The hashmap keys are the values provided for the 'name' arguments of these function.
    *
+   * The provided entries are merged with the defaults.
+   *
    * @default see {@link shanoirNGDefaults}
    */
   readonly uids?: {[key:string]: number};
 
+  /** Policy for changing the ownership of the volumes to the `fsGroup` of each pod
+   *
+   * `OnRootMismatch` speeds up the startup of the pods mounting large volumes. It also applies to
+   * the init containers fixing the permissions (see {@link
+   * ShanoirVolumeClaimProps.fixPermissions}), which then skip the volumes whose root directory is
+   * not owned by root.
+   *
+   * @default FsGroupChangePolicy.ALWAYS
+   */
+  readonly fsGroupChangePolicy?: FsGroupChangePolicy;
+
+  /** Number of replicas of each deployment
+   *
+   * The hashmap keys are the same as in {@link uids}.
+   *
+   * Note: the databases, keycloak, dcm4chee, rabbitmq and solr deployments must not be
+   * replicated.
+   *
+   * @default 1
+   */
+  readonly replicas?: {[key:string]: number};
+
+  /** Scheduling constraints of each component
+   *
+   * The hashmap keys are the names of the deployments and jobs (the same as in {@link uids}, plus
+   * `dcm4chee` and `dcm4chee-database`).
+   */
+  readonly scheduling?: {[key: string]: ShanoirSchedulingProps};
+
+  /** PodDisruptionBudget limiting the voluntary evictions (eg: node drains) of the stateful
+   * components
+   *
+   * If set, the pods of the listed components are covered by a single budget, so that they are
+   * not evicted at the same time (eg: mysql and dcm4chee are never down simultaneously during a
+   * node drain).
+   */
+  readonly disruptionBudget?: ShanoirDisruptionBudgetProps;
+
+  /** Deploy each shanoir microservice in a separate deployment
+   *
+   * By default, the users, studies, import, datasets and preclinical microservices are run in a
+   * single pod (the `ms` deployment), which is suitable for small instances.
+   *
+   * If set, each microservice has its own deployment and service (named after the microservice),
+   * so that it can be restarted, scaled (see {@link replicas}) and allocated resources
+   * independently. The database migrations are then run by the `users` deployment only.
+   *
+   * Note: this flag has no effect on the initialisation job (see {@link init}) which always runs
+   * all microservices in a single pod.
+   *
+   * @default see {@link shanoirNGDefaults}
+   */
+  readonly splitMicroservices?: boolean;
+
+  /** Generate network policies isolating each component
+   *
+   * If set, this deployment will include a default-deny policy for the incoming traffic of all
+   * pods in the namespace, and a policy for each component allowing only the connections from its
+   * actual clients (eg: the `database` service is reachable only from the microservices, keycloak
+   * and the backup jobs on port 3306). The services exposed in the ingress rules are reachable from
+   * the namespace of the ingress controller (see {@link ShanoirIngressProps.controllerNamespace}).
+   *
+   * Note: the outgoing traffic is not restricted.
+   *
+   * @default see {@link shanoirNGDefaults}
+   */
+  readonly networkPolicies?: boolean;
+
+  /** cpu/memory resources to be allocated to each container
+   *
+   * The hashmap keys are the same as in {@link uids} for the single-container deployments. The
+   * other containers are identified by their own name:
+   * - `dcm4chee` (the dcm4chee-arc container), `dcm4chee-ldap` (its ldap sidecar) and
+   *   `dcm4chee-remote-aes` (the init container registering {@link ShanoirDicomProps.remoteAes})
+   * - `database-migrations`, `users`, `studies`, `import`, `datasets` and `preclinical` (the
+   *   containers of the `ms` deployment)
+   * - `wait-for-dependencies` (the init container delaying the startup of the microservices until
+   *   their backend services are reachable)
+   * - `metrics-exporter` (the exporter sidecars of the databases, see {@link monitoring})
+   *
+   * The provided entries are merged with the defaults. A container without any entry is run
+   * without any resource request nor limit.
+   *
+   * @default see {@link defaultResources}
+   */
+  readonly resources?: {[key:string]: ContainerResources};
+
+  /** Timings of the probes of each container
+   *
+   * The hashmap keys are the same as in {@link resources}. The provided values are merged with the
+   * defaults.
+   *
+   * @default see {@link defaultProbes} and {@link shanoirProbeDefaults}
+   */
+  readonly probes?: {[key:string]: ShanoirProbeProps};
+
+  /** Percentage of the container memory limit to be used as the maximum heap size of the JVM
+   *
+   * This applies to the shanoir microservices (through the `JAVA_TOOL_OPTIONS` environment
+   * variable). It has no effect on containers that do not have a memory limit.
+   *
+   * @default see {@link shanoirNGDefaults}
+   */
+  readonly jvmHeapPercentage?: number;
+
+  /** Maximum size of the files uploaded into shanoir (eg: DICOM studies)
+   *
+   * This limit is applied consistently to the ingress (only on the upload endpoints, through a
+   * separate Ingress object), to the nginx container and to the multipart requests of the import
+   * and datasets microservices.
+   *
+   * @default see {@link shanoirNGDefaults}
+   */
+  readonly maxUploadSize?: Size;
+
+  /** Timeout for sending/receiving the upload requests to/from the nginx and shanoir containers
+   *
+   * This applies to the same endpoints as {@link maxUploadSize}.
+   *
+   * @default see {@link shanoirNGDefaults}
+   */
+  readonly uploadTimeout?: Duration;
+
+  /** Logging for clusters with a centralized logging stack
+   *
+   * By default the components write their log files into the `logs`, `dcm4chee-logs` and
+   * `keycloak-logs` volumes. If set, these volume claims are no longer needed: the log files are
+   * written into ephemeral volumes and the logs are collected either from the standard output of
+   * the containers and of `log-tail` sidecars, or by Fluent Bit sidecars (see {@link
+   * ShanoirLoggingProps.mode}).
+   */
+  readonly logging?: ShanoirLoggingProps;
+
+  /** Prometheus monitoring
+   *
+   * If set, this deployment will include:
+   * - a metrics exporter sidecar in each database deployment (mysqld-exporter and
+   *   postgres-exporter)
+   * - the rabbitmq prometheus plugin
+   * - the metrics endpoints of keycloak and of the shanoir microservices (spring boot actuator)
+   * - a `PodMonitor` for scraping each of these components
+   * - a `PrometheusRule` with alerts on the disk usage of the volumes, the pod restarts and the
+   *   rabbitmq queue backlog
+   */
+  readonly monitoring?: ShanoirMonitoringProps;
+
+  /** Expose the DICOM port of the archive outside the cluster
+   *
+   * If set, this deployment will include a LoadBalancer (or NodePort) service for receiving the
+   * DICOM studies pushed (C-STORE) by external modalities into the dcm4chee archive.
+   */
+  readonly dicom?: ShanoirDicomProps;
+
+  /** Scheduled backups of the databases
+   *
+   * If set, this deployment will include a CronJob for dumping each database into the `backup`
+   * volume (see {@link volumeClaims}).
+   */
+  readonly backup?: ShanoirBackupProps;
+
+  /** Restore mode, for bootstrapping a new instance from a backup (or cloning an instance)
+   *
+   * If set, this will generate an additional chart with a name starting with 'danger-restore-' and
+   * providing the jobs to load the database dumps and to copy the data volumes from another
+   * instance. The hostnames of the source instance are rewritten on the fly.
+   *
+   * In this mode, the main chart deploys only the backend services (databases, rabbitmq, solr and
+   * mailpit). Once the restore jobs are complete, this parameter must be removed and the manifests
+   * regenerated.
+   *
+   * This additional chart performs destructive operations (the databases and volumes of this
+   * instance are overwritten). It must never be run on a pre-existing production instance. It
+   * cannot be used together with {@link init}.
+   */
+  readonly restore?: ShanoirRestoreProps;
+
+  /** Upgrade mode, for migrating an existing instance to a new {@link version}
+   *
+   * If set, this will generate an additional chart with a name starting with 'upgrade-' and
+   * providing a job that runs sequentially:
+   * 1. a dump of each database (see {@link ShanoirUpgradeProps.skipBackup})
+   * 2. the update of the shanoir-ng realm in the internal keycloak server
+   * 3. the migrations of the databases and of every microservice
+   *
+   * Since keycloak and the microservices keep running after applying their migrations, they are
+   * run as sidecar containers: the job completes once all of them are up (or fails after {@link
+   * ShanoirUpgradeProps.timeout}).
+   *
+   * In this mode, the microservices and nginx deployments of the main chart are scaled down to
+   * zero replicas. Once the upgrade job is complete, this parameter must be removed and the
+   * manifests regenerated.
+   *
+   * The synth fails if {@link version} is older than the version of the running instance (see
+   * {@link ShanoirUpgradeProps.fromVersion}). It cannot be used together with {@link init} or
+   * {@link restore}.
+   */
+  readonly upgrade?: ShanoirUpgradeProps;
+
+  /** Generate random passwords for the internal accounts
+   *
+   * If set, the passwords of the accounts managed by this deployment (the internal mysql and
+   * postgresql databases, including the mysql root account, and the admin account of the internal
+   * keycloak server) are not taken from the props but read from a secret named
+   * `${id}-generated-passwords`. Literal passwords provided in the props for these accounts are
+   * ignored (passwords provided as references to pre-existing secrets are still used).
+   *
+   * This secret is generated (with random passwords) in the initialisation mode only (see {@link
+   * init}), in an additional chart with a name starting with 'secrets-'. This chart must be
+   * applied once, before the other manifests. The passwords found in the manifest generated by
+   * the previous synth (if any) are kept, so that re-synthesizing does not change them (delete
+   * this manifest to generate new passwords).
+   *
+   * The internal mysql databases apply the generated passwords to their accounts when they are
+   * initialised (ie: when their data volume is empty).
+   *
+   * Note: the `migrations` database account is excluded (its password cannot be configured yet).
+   *
+   * Since the internal databases are otherwise deployed with well-known default passwords, this
+   * flag must be set explicitly (to true or false) in the initialisation mode when they are used
+   * (ie: when {@link mysqlDatabases} or {@link postgresqlDatabases} is unset).
+   *
+   * @default see {@link shanoirNGDefaults}
+   */
+  readonly generatePasswords?: boolean;
+
+  /** Treat the validation warnings as errors
+   *
+   * The props are validated when creating the chart: the errors (eg: a missing volume claim) are
+   * reported at once in a {@link ShanoirValidationError}, while the warnings (eg: an unexpected
+   * key) are only printed on stderr, unless this flag is set (useful in CI pipelines).
+   *
+   * @default false
+   */
+  readonly strictValidation?: boolean;
+
+  /** Allow renaming the volume claims of the data volumes (see {@link shanoirDataVolumes})
+   *
+   * The name of these claims is recorded in the generated manifest. By default the synth fails
+   * if it differs from the name recorded in the manifest generated by the previous synth (since
+   * the new claim would not contain the data). This flag allows a deliberate rename (eg: after
+   * copying the data into new claims).
+   *
+   * When the id of the chart is changed, the names are read from the manifest of the previous
+   * chart id, provided that it deploys into the same {@link namespace} (the other manifests of the
+   * output directory are not compared since they may belong to other instances).
+   *
+   * @default false
+   */
+  readonly allowVolumeClaimRenames?: boolean;
+
+  /** Directory containing the manifests generated by the previous synth
+   *
+   * These manifests record the version of the running instance (see {@link
+   * ShanoirUpgradeProps.fromVersion}), the names of its data volume claims (see {@link
+   * allowVolumeClaimRenames}) and its generated passwords (see {@link generatePasswords}). They
+   * are read from the output directory of the cdk8s app, either with the default file names
+   * (`<chart id>.k8s.yaml`) or with the indexed ones (`0000-<chart id>.k8s.yaml`).
+   *
+   * Since `cdk8s synth` empties the output directory before synthesizing, a copy of the deployed
+   * manifests must be kept in another directory (eg: `deployed/`) when using the cdk8s CLI. If no
+   * previous manifest is found (outside of the initialisation mode), a warning is printed and the
+   * checks depending on it are skipped.
+   *
+   * @default the output directory of the cdk8s app
+   */
+  readonly previousManifestsDir?: string;
+
   /** Flag for initialising a new shanoir instance
    *
    * Set this flag to 'true' when deploying a new shanoir instance.
@@ -0,0 +1,401 @@
+import { PersistentVolumeAccessMode } from "cdk8s-plus-33";
+import { URL } from "whatwg-url";
+
+import {
+  ShanoirCredentials, ShanoirNGProps, defaultImages, defaultProbes, defaultResources, defaultUids,
+  shanoirImages, shanoirMysqlDatabases, shanoirNGDefaults, shanoirPostgresqlDatabases,
+  shanoirSharedVolumes, shanoirVolumes,
+} from "./shanoir-ng-props";
+
+/** Problem found in the props of a shanoir instance (see {@link ShanoirValidationError}) */
+export interface ShanoirValidationProblem {
+  /** path of the offending prop (eg: `volumeClaims.datasets-data`) */
+  readonly path: string;
+
+  /** description of the problem */
+  readonly message: string;
+}
+
+/** Error raised when the props of a shanoir instance are invalid
+ *
+ * It lists all the problems found in the props (not only the first one).
+ *
+ * Note: this class does not derive from `Error` (which is not supported by jsii).
+ */
+export class ShanoirValidationError
+{
+  readonly name = "ShanoirValidationError";
+
+  /** problems found in the props */
+  readonly problems: ShanoirValidationProblem[];
+
+  /** human-readable description of all the problems */
+  readonly message: string;
+
+  constructor(problems: ShanoirValidationProblem[])
+  {
+    this.problems = problems;
+    this.message = "invalid shanoir props:\n"
+      + problems.map((p) => `  - ${p.path}: ${p.message}`).join("\n");
+  }
+
+  toString(): string
+  {
+    return `${this.name}: ${this.message}`;
+  }
+}
+
+/** Result of {@link ShanoirNGValidator.validate} */
+export interface ShanoirValidationResult {
+  /** fatal problems */
+  readonly errors: ShanoirValidationProblem[];
+
+  /** non-fatal problems (fatal if {@link ShanoirNGProps.strictValidation} is set) */
+  readonly warnings: ShanoirValidationProblem[];
+}
+
+/** Validation of the props of a shanoir instance */
+export class ShanoirNGValidator
+{
+  /** validate the props (before applying the defaults)
+   *
+   * @return  the list of all errors and warnings found in the props
+   */
+  static validate(props: ShanoirNGProps): ShanoirValidationResult
+  {
+    const v = new ShanoirNGValidator();
+    v.check(props);
+    return { errors: v.errors, warnings: v.warnings };
+  }
+
+  /** validate the props and throw a {@link ShanoirValidationError} if they are invalid
+   *
+   * The warnings are printed on stderr (or included in the error if {@link
+   * ShanoirNGProps.strictValidation} is set).
+   */
+  static assertValid(props: ShanoirNGProps)
+  {
+    const result = ShanoirNGValidator.validate(props);
+    const problems = props.strictValidation ? [...result.errors, ...result.warnings]
+      : result.errors;
+    if (problems.length) {
+      throw new ShanoirValidationError(problems);
+    }
+    for (const w of result.warnings) {
+      console.error(`warning: ${w.path}: ${w.message}`);
+    }
+  }
+
+  private readonly errors: ShanoirValidationProblem[] = [];
+  private readonly warnings: ShanoirValidationProblem[] = [];
+
+  private constructor() {}
+
+  private error(path: string, message: string)
+  {
+    this.errors.push({ path, message });
+  }
+
+  private warning(path: string, message: string)
+  {
+    this.warnings.push({ path, message });
+  }
+
+  /** ensure that the `map` contains a set of expected keys
+   *
+   * If `map` is defined, then the function will:
+   * - report an error if any key listed in `requiredKeys` is missing
+   * - report a warning if the map includes a key not listed in `knownKeys`
+   *
+   * If `knownKeys` is unset, then it is initialised with the value of `requiredKeys`.
+   */
+  private checkKeys(path: string, map: {[key: string]: unknown} | undefined,
+                    requiredKeys: string[], knownKeys?: string[])
+  {
+    if (map != undefined) {
+      const knownSet = new Set(knownKeys ?? requiredKeys);
+      for (const key of Object.keys(map).filter((x) => !knownSet.has(x))) {
+        this.warning(`${path}.${key}`, "unexpected key");
+      }
+      for (const key of requiredKeys.filter((x) => !(x in map))) {
+        this.error(`${path}.${key}`, "missing value");
+      }
+    }
+  }
+
+  /** parse an url
+   *
+   * @param root  if set, the url must not have any port nor path
+   * @return      the parsed url, or undefined if invalid
+   */
+  private checkUrl(path: string, url: string | undefined, root: boolean): URL | undefined
+  {
+    if (url == undefined) {
+      return undefined;
+    }
+    let u: URL;
+    try {
+      u = new URL(url);
+    } catch (e) {
+      this.error(path, `invalid url: ${url}`);
+      return undefined;
+    }
+    if (u.protocol != "https:" && u.protocol != "http:") {
+      this.error(path, `must be a http(s) url: ${url}`);
+    } else if (root && (u.port != "" || u.pathname != "/")) {
+      this.error(path, `must not include a port nor a path: ${url}`);
+    }
+    return u;
+  }
+
+  private check(props: ShanoirNGProps)
+  {
+    const useInternalKeycloak            = props.keycloakUrl == undefined;
+    const useInternalMysqlDatabases      = props.mysqlDatabases == undefined;
+    const useInternalPostgresqlDatabases = props.postgresqlDatabases == undefined;
+    const logVolumes = ["logs", "dcm4chee-logs", "keycloak-logs"];
+
+    //////////// required props ////////////
+
+    const required: (keyof ShanoirNGProps)[] = ["url", "viewerUrl", "adminName", "adminEmail",
+      "smtp", "keycloakCredentials", "volumeClaims", "ingress"];
+    const missing = required.filter((key) => props[key] == undefined);
+    for (const key of missing) {
+      this.error(key, "missing value");
+    }
+    if (missing.length) {
+      // the other checks rely on these props
+      return;
+    }
+
+    //////////// modes ////////////
+
+    if (props.init && props.restore != undefined) {
+      this.error("restore", "cannot be used together with init");
+    }
+    if (props.upgrade != undefined && (props.init || props.restore != undefined)) {
+      this.error("upgrade", "cannot be used together with init or restore");
+    }
+    if (props.upgrade != undefined && !props.upgrade.skipBackup && props.backup == undefined) {
+      this.warning("upgrade", "the databases are not dumped before the upgrade"
+                   + " (backup is not configured)");
+    }
+
+    //////////// urls ////////////
+
+    const url = this.checkUrl("url", props.url, true);
+    const viewerUrl = this.checkUrl("viewerUrl", props.viewerUrl, true);
+    this.checkUrl("keycloakUrl", props.keycloakUrl, false);
+    this.checkUrl("keycloakInternalUrl", props.keycloakInternalUrl, false);
+    this.checkUrl("vip.url", props.vip?.url, true);
+
+    if (props.keycloakInternalUrl != undefined && props.keycloakUrl == undefined) {
+      this.error("keycloakInternalUrl", "cannot be used without keycloakUrl");
+    }
+
+    // each http service must have its own hostname
+    const hosts: [string, string | undefined][] = [
+      ["url", url?.host],
+      ["viewerUrl", viewerUrl?.host],
+      ["smtp.mailpit.host", props.smtp.mailpit?.host],
+    ];
+    hosts.forEach(([path, host], i) => {
+      const other = hosts.slice(0, i).find(([_, h]) => host != undefined && h == host);
+      if (other != undefined) {
+        this.error(path, `same hostname as ${other[0]}: ${host}`);
+      }
+    });
+
+    //////////// smtp ////////////
+
+    if (props.smtp.host == undefined && props.smtp.mailpit == undefined) {
+      this.error("smtp", "must provide either smtp.host or smtp.mailpit");
+    }
+
+    //////////// credentials ////////////
+
+    // the passwords of the internal accounts may be generated (see generatePasswords)
+    const generate = props.generatePasswords ?? shanoirNGDefaults.generatePasswords;
+    const checkCredentials = (path: string, cred: ShanoirCredentials | undefined,
+                              internal: boolean) => {
+      if (cred != undefined && cred.password == undefined && cred.passwordRef == undefined
+          && !(generate && internal)) {
+        this.error(`${path}.password`, "missing value (password or passwordRef is required)");
+      }
+    };
+    checkCredentials("keycloakCredentials", props.keycloakCredentials, useInternalKeycloak);
+    checkCredentials("smtp.auth", props.smtp.auth, false);
+    for (const [name, db] of Object.entries(props.mysqlDatabases ?? {})) {
+      checkCredentials(`mysqlDatabases.${name}`, db, db.host == "INTERNAL" && name != "migrations");
+    }
+    for (const [name, db] of Object.entries(props.postgresqlDatabases ?? {})) {
+      checkCredentials(`postgresqlDatabases.${name}`, db, db.host == "INTERNAL");
+    }
+
+    // a new instance must not be deployed with the default passwords of the internal databases
+    // by accident
+    if (props.init && props.generatePasswords == undefined
+        && (useInternalMysqlDatabases || useInternalPostgresqlDatabases)) {
+      this.error("generatePasswords", "must be set explicitly in the initialisation mode when"
+                 + " deploying the internal databases (true for generating their passwords, or"
+                 + " false for keeping the default passwords)");
+    }
+
+    // the migrations account is hardcoded in the database-migrations image
+    // (https://github.com/fli-iam/shanoir-ng/issues/3430)
+    const migrations = props.mysqlDatabases?.migrations;
+    if (migrations != undefined) {
+      const defaults = { db: "migrations", username: "migrations", password: "password" };
+      for (const [key, value] of Object.entries(defaults)) {
+        if (migrations[key as keyof typeof defaults] != value) {
+          this.error(`mysqlDatabases.migrations.${key}`, `must be "${value}" (not configurable)`);
+        }
+      }
+      if (migrations.passwordRef != undefined) {
+        this.error("mysqlDatabases.migrations.passwordRef", "not supported");
+      }
+      if ((migrations.port ?? 3306) != 3306) {
+        this.error("mysqlDatabases.migrations.port", "must be 3306 (not configurable)");
+      }
+    }
+
+    //////////// ingress ////////////
+
+    const ingress = props.ingress;
+    if (ingress.flavor == "gateway-api") {
+      if (ingress.gateway == undefined) {
+        this.error("ingress.gateway", "is required with the gateway-api flavor");
+      }
+      if (ingress.tlsSecretName != undefined || ingress.tlsCrt != undefined
+          || ingress.certIssuer != undefined) {
+        this.warning("ingress", "the TLS certificate is ignored with the gateway-api flavor"
+                     + " (it must be configured in the gateway)");
+      }
+    }
+    if ((ingress.tlsCrt == undefined) != (ingress.tlsKey == undefined)) {
+      this.error("ingress.tlsKey", "tlsCrt and tlsKey must be provided together");
+    }
+    if (!useInternalKeycloak && ingress.exposeKeycloakAdminConsole) {
+      this.warning("ingress.exposeKeycloakAdminConsole",
+                   "has no effect when using an external keycloak server");
+    }
+
+    //////////// volumes and databases ////////////
+
+    // list of volumes for which we do not need a volume claim
+    const optionalVolumes = new Set([
+      "dcm4chee-arc-wildfly-data",
+      "dcm4chee-ldap-data",
+      "dcm4chee-sldap-data",
+      ...(useInternalKeycloak             ? [] : ["keycloak-database-data", "keycloak-logs"]),
+      ...(useInternalMysqlDatabases       ? [] : ["keycloak-database-data", "database-data"]),
+      ...(useInternalPostgresqlDatabases  ? [] : ["dcm4chee-database-data"]),
+      ...(props.backup != undefined       ? [] : ["backup"]),
+      ...(props.logging == undefined      ? [] : logVolumes),
+    ])
+
+    // ensure all required volume claims and db credentials are provided
+    this.checkKeys("volumeClaims", props.volumeClaims,
+                   shanoirVolumes.filter(x => !optionalVolumes.has(x)), shanoirVolumes);
+    this.checkKeys("mysqlDatabases", props.mysqlDatabases,
+                   shanoirMysqlDatabases.filter(x => useInternalKeycloak || x != "keycloak"),
+                   shanoirMysqlDatabases);
+    this.checkKeys("postgresqlDatabases", props.postgresqlDatabases,
+                   shanoirPostgresqlDatabases);
+    if (props.mysqlRootPasswordRef != undefined && !useInternalMysqlDatabases) {
+      this.warning("mysqlRootPasswordRef", "unused (the mysql databases are external)");
+    }
+
+    for (const [name, claim] of Object.entries(props.volumeClaims)) {
+      if (claim.existingClaimName != undefined && claim.claimName != undefined) {
+        this.error(`volumeClaims.${name}.claimName`,
+                   "cannot be used together with existingClaimName");
+      }
+    }
+
+    // a ReadWriteOnce shared volume forces its pods to run on the same node (see
+    // shanoirSharedVolumes), which is not possible if they are replicated
+    const split = props.splitMicroservices ?? shanoirNGDefaults.splitMicroservices;
+    const sharingPods: {[key: string]: string[]} = {
+      "tmp": ["nifti-conversion",
+              ...(split ? ["users", "studies", "import", "datasets", "preclinical"] : ["ms"])],
+      "datasets-data": ["nifti-conversion", ...(split ? ["studies", "datasets"] : ["ms"])],
+    };
+    for (const name of props.init ? [] : shanoirSharedVolumes) {
+      const claim = props.volumeClaims[name];
+      if (claim == undefined
+          || claim.accessModes?.includes(PersistentVolumeAccessMode.READ_WRITE_MANY)) {
+        continue;
+      }
+      for (const pod of sharingPods[name]!.filter((x) => (props.replicas?.[x] ?? 1) > 1)) {
+        this.error(`volumeClaims.${name}.accessModes`, "must include ReadWriteMany because the"
+                   + ` volume is mounted by replicated pods (replicas.${pod})`);
+      }
+    }
+
+    //////////// logging ////////////
+
+    if (props.logging != undefined) {
+      for (const name of logVolumes.filter((x) => props.volumeClaims[x] != undefined)) {
+        this.warning(`volumeClaims.${name}`, "unused (the logs are not stored when using logging)");
+      }
+      if (props.logging.mode == "fluent-bit" && props.logging.fluentBit == undefined) {
+        this.error("logging.fluentBit", "is required with the fluent-bit mode");
+      }
+    }
+
+    //////////// containers ////////////
+
+    this.checkKeys("uids", props.uids, [], Object.keys(defaultUids));
+    this.checkKeys("resources", props.resources, [], Object.keys(defaultResources));
+    this.checkKeys("probes", props.probes, [],
+                   [...Object.keys(defaultResources), ...Object.keys(defaultProbes)]);
+    this.checkKeys("replicas", props.replicas, [], Object.keys(defaultUids));
+    const components = [...Object.keys(defaultUids), "dcm4chee", "dcm4chee-database"];
+    this.checkKeys("scheduling", props.scheduling, [], components);
+    this.checkKeys("images", props.images, [], [...shanoirImages, ...Object.keys(defaultImages)]);
+
+    for (const [name, uid] of Object.entries(props.uids ?? {})) {
+      if (!Number.isInteger(uid) || uid < 0 || uid > 0x7fffffff) {
+        this.error(`uids.${name}`, `invalid uid: ${uid}`);
+      }
+    }
+    for (const [name, replicas] of Object.entries(props.replicas ?? {})) {
+      if (!Number.isInteger(replicas) || replicas < 0) {
+        this.error(`replicas.${name}`, `invalid number of replicas: ${replicas}`);
+      }
+    }
+    for (const [name, image] of Object.entries(props.images ?? {})) {
+      if (image.digest != undefined && !/^[a-z0-9]+:[0-9a-f]{32,}$/.test(image.digest)) {
+        this.error(`images.${name}.digest`, `invalid digest (expected eg: "sha256:4f5e..."): `
+                   + image.digest);
+      }
+    }
+    for (const name of props.disruptionBudget?.components ?? []) {
+      if (!components.includes(name)) {
+        this.warning("disruptionBudget.components", `unknown component: ${name}`);
+      }
+    }
+    const maxUnavailable = props.disruptionBudget?.maxUnavailable;
+    if (maxUnavailable != undefined && !(Number.isInteger(maxUnavailable) && maxUnavailable > 0)) {
+      this.error("disruptionBudget.maxUnavailable",
+                 `must be a positive integer (0 would block the node drains): ${maxUnavailable}`);
+    }
+    if (props.jvmHeapPercentage != undefined
+        && !(props.jvmHeapPercentage > 0 && props.jvmHeapPercentage <= 100)) {
+      this.error("jvmHeapPercentage", `must be in the range ]0, 100]: ${props.jvmHeapPercentage}`);
+    }
+
+    //////////// backup/restore ////////////
+
+    const schedule = props.backup?.schedule;
+    if (schedule != undefined && schedule.trim().split(/\s+/).length != 5) {
+      this.error("backup.schedule", `invalid cron schedule: ${schedule}`);
+    }
+    for (const name of Object.keys(props.restore?.volumeClaimNames ?? {})) {
+      if (props.volumeClaims[name] == undefined) {
+        this.error(`restore.volumeClaimNames.${name}`, "unknown volume to be restored");
+      }
+    }
+  }
+}